@@ -0,0 +1,68 @@
+import * as v from "@valibot/valibot";
+import { ApiError, toProblemIssues } from "./errors.ts";
+import type { SimulationState } from "./types.ts";
+import { simulationStateSchema } from "./validation.ts";
+
+// named checkpoints taken at runtime or used to boot from
+export const CHECKPOINT_DIR = new URL("./checkpoints/", import.meta.url);
+
+/** Write a state to CHECKPOINT_DIR/<name>.json, replacing any checkpoint of that name. */
+export async function saveCheckpoint(name: string, state: SimulationState) {
+  await Deno.mkdir(CHECKPOINT_DIR, { recursive: true });
+  const path = new URL(`${name}.json`, CHECKPOINT_DIR);
+  // write next to the target and rename, so a crash never leaves half a checkpoint
+  const tmp = new URL(`${name}.json.tmp`, CHECKPOINT_DIR);
+  await Deno.writeTextFile(tmp, JSON.stringify(state));
+  await Deno.rename(tmp, path);
+}
+
+/**
+ * Read a checkpoint file; a bare name refers to CHECKPOINT_DIR/<name>.json.
+ * A file that isn't a complete checkpoint is a 422 ApiError listing the first
+ * field that failed validation.
+ */
+export async function loadCheckpoint(
+  pathOrName: string,
+): Promise<SimulationState> {
+  const path = /^[a-z0-9][a-z0-9_-]*$/.test(pathOrName)
+    ? new URL(`${pathOrName}.json`, CHECKPOINT_DIR)
+    : pathOrName;
+  const text = await Deno.readTextFile(path);
+  let json;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ApiError(422, `${pathOrName} is not valid JSON`);
+  }
+  // a checkpoint holds thousands of cells, the first bad field is enough
+  const result = v.safeParse(simulationStateSchema, json, { abortEarly: true });
+  if (!result.success) {
+    throw new ApiError(
+      422,
+      `${pathOrName} is not a simulation checkpoint`,
+      toProblemIssues(result.issues),
+    );
+  }
+  // fields older checkpoints lack are filled in by Simulation#restoreState
+  return result.output as SimulationState;
+}
+
+/** Named checkpoints in CHECKPOINT_DIR, newest first. */
+export async function listCheckpoints() {
+  const out: Array<{ name: string; modified_at: string; size: number }> = [];
+  try {
+    for await (const entry of Deno.readDir(CHECKPOINT_DIR)) {
+      if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+      const info = await Deno.stat(new URL(entry.name, CHECKPOINT_DIR));
+      out.push({
+        name: entry.name.slice(0, -".json".length),
+        modified_at: (info.mtime ?? new Date(0)).toISOString(),
+        size: info.size,
+      });
+    }
+  } catch (error) {
+    // nothing has been saved yet
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return out.sort((a, b) => b.modified_at.localeCompare(a.modified_at));
+}
@@ -0,0 +1,77 @@
+/**
+ * Simulation time source: wall-clock time scaled by a speed multiplier that
+ * can be paused, sped up or moved to an arbitrary timestamp.
+ *
+ * A stepped clock ignores wall-clock time and only moves on `advance()`, so a
+ * run's timestamps depend on the number of ticks rather than on scheduling.
+ */
+export class SimulationClock {
+  readonly stepped: boolean;
+
+  #anchorReal: number; // wall-clock ms at the last re-anchoring
+  #anchorSim: number; // simulated ms at the last re-anchoring
+  #speed: number;
+  #paused = false;
+  #jumps = 0;
+
+  constructor(opts?: { start?: number; speed?: number; stepped?: boolean }) {
+    this.stepped = opts?.stepped ?? false;
+    this.#anchorReal = Date.now();
+    this.#anchorSim = opts?.start ?? this.#anchorReal;
+    this.#speed = opts?.speed ?? 1;
+  }
+
+  /** Current simulated time in epoch milliseconds. */
+  now(): number {
+    if (this.#paused || this.stepped) return Math.floor(this.#anchorSim);
+    return Math.floor(
+      this.#anchorSim + (Date.now() - this.#anchorReal) * this.#speed,
+    );
+  }
+
+  get speed() {
+    return this.#speed;
+  }
+
+  get paused() {
+    return this.#paused;
+  }
+
+  /** Number of jumpTo calls so far, to tell jumps from time that passed. */
+  get jumps() {
+    return this.#jumps;
+  }
+
+  pause() {
+    if (this.#paused) return;
+    this.#anchor(this.now());
+    this.#paused = true;
+  }
+
+  resume() {
+    if (!this.#paused) return;
+    this.#anchor(this.#anchorSim);
+    this.#paused = false;
+  }
+
+  setSpeed(multiplier: number) {
+    if (!(multiplier > 0)) throw new RangeError("speed must be positive");
+    this.#anchor(this.now());
+    this.#speed = multiplier;
+  }
+
+  /** Move a stepped clock by `realMs` of wall-clock time at the current speed; no-op otherwise. */
+  advance(realMs: number) {
+    if (this.stepped && !this.#paused) this.#anchorSim += realMs * this.#speed;
+  }
+
+  jumpTo(timestamp: number) {
+    this.#jumps++;
+    this.#anchor(timestamp);
+  }
+
+  #anchor(sim: number) {
+    this.#anchorReal = Date.now();
+    this.#anchorSim = sim;
+  }
+}
@@ -0,0 +1,53 @@
+import * as v from "@valibot/valibot";
+import { parseArgs } from "node:util";
+import { toProblemIssues } from "./errors.ts";
+import { type Config, configObjectSchema, configSchema } from "./validation.ts";
+
+const CONFIG_KEYS = Object.keys(configObjectSchema.entries);
+
+// target_cell_count → --target-cell-count
+const flagName = (key: string) => key.replaceAll("_", "-");
+
+/**
+ * Effective configuration: defaults, overridden by the JSON config file
+ * (`--config` or CONFIG), then by environment variables (TARGET_CELL_COUNT),
+ * then by CLI flags (`--target-cell-count=1000`).
+ */
+export async function loadConfig(
+  args = Deno.args,
+  env = Deno.env.toObject(),
+): Promise<Config> {
+  const { values: flags } = parseArgs({
+    args,
+    options: Object.fromEntries(
+      [...CONFIG_KEYS, "config"].map((key) => [
+        flagName(key),
+        { type: "string" as const },
+      ]),
+    ),
+  });
+
+  const path = flags.config ?? env.CONFIG;
+  const file = path ? JSON.parse(await Deno.readTextFile(path)) : {};
+  const fromEnv: Record<string, string> = {};
+  const fromFlags: Record<string, string> = {};
+  for (const key of CONFIG_KEYS) {
+    const envValue = env[key.toUpperCase()];
+    if (envValue !== undefined) fromEnv[key] = envValue;
+    const flagValue = flags[flagName(key)];
+    if (typeof flagValue === "string") fromFlags[key] = flagValue;
+  }
+
+  const result = v.safeParse(configSchema, {
+    ...file,
+    ...fromEnv,
+    ...fromFlags,
+  });
+  if (!result.success) {
+    const lines = toProblemIssues(result.issues).map(({ field, message }) =>
+      `  ${field ?? "config"}: ${message}`
+    );
+    throw new Error(`invalid configuration:\n${lines.join("\n")}`);
+  }
+  return result.output;
+}
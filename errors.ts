@@ -0,0 +1,101 @@
+import * as v from "@valibot/valibot";
+import { isHttpError, type Middleware, STATUS_TEXT } from "@oak/oak";
+
+export type ProblemIssue = { field: string | null; message: string };
+
+/** Error with an HTTP status, rendered as an `application/problem+json` body (RFC 9457). */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly issues?: Array<ProblemIssue>;
+
+  constructor(status: number, message: string, issues?: Array<ProblemIssue>) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.issues = issues;
+  }
+}
+
+/** 400: request did not pass schema validation. */
+export class ValidationError extends ApiError {
+  constructor(message: string, issues?: Array<ProblemIssue>) {
+    super(400, message, issues);
+    this.name = "ValidationError";
+  }
+}
+
+/** 404: unknown route, cell, hotspot or archived day. */
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(404, message);
+    this.name = "NotFoundError";
+  }
+}
+
+export function toProblemIssues(
+  issues: Array<v.BaseIssue<unknown>>,
+): Array<ProblemIssue> {
+  return issues.map((issue) => ({
+    field: v.getDotPath(issue),
+    message: issue.message,
+  }));
+}
+
+/** Parse `input` with `schema`, throwing a ValidationError with per-field issues on failure. */
+export function parseOrThrow<
+  const TSchema extends v.GenericSchema,
+>(schema: TSchema, input: unknown): v.InferOutput<TSchema> {
+  const result = v.safeParse(schema, input);
+  if (result.success) return result.output;
+  throw new ValidationError(
+    "request failed validation",
+    toProblemIssues(result.issues),
+  );
+}
+
+export function problemResponse(
+  status: number,
+  detail: string,
+  extra?: { instance?: string; issues?: Array<ProblemIssue> },
+) {
+  return new Response(
+    JSON.stringify({
+      type: "about:blank",
+      title: STATUS_TEXT[status as keyof typeof STATUS_TEXT] ?? "Error",
+      status,
+      detail,
+      ...extra,
+    }),
+    {
+      status,
+      headers: { "content-type": "application/problem+json" },
+    },
+  );
+}
+
+/** Turns anything thrown further down the middleware chain into a problem response. */
+export const errorHandler: Middleware = async (ctx, next) => {
+  try {
+    await next();
+  } catch (error) {
+    const instance = ctx.request.url.pathname;
+    if (error instanceof ApiError) {
+      ctx.response.with(
+        problemResponse(error.status, error.message, {
+          instance,
+          issues: error.issues,
+        }),
+      );
+    } else if (isHttpError(error) && error.expose) {
+      // raised by oak itself, e.g. a malformed request body
+      ctx.response.with(
+        problemResponse(error.status, error.message, { instance }),
+      );
+    } else {
+      console.error(error);
+      ctx.response.with(
+        problemResponse(500, "internal server error", { instance }),
+      );
+    }
+  }
+};
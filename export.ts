@@ -0,0 +1,199 @@
+import { ApiError, ValidationError } from "./errors.ts";
+import { type Feature, GEOJSON_CONTENT_TYPE } from "./geojson.ts";
+import type { ExportView } from "./types.ts";
+
+// items serialised per pull of a streamed body
+const STREAM_CHUNK_SIZE = 500;
+
+export type ExportFormat = "json" | "ndjson" | "geojson";
+
+export type ExportOptions = {
+  format: ExportFormat;
+  limit?: number;
+  cursor?: string;
+};
+
+/** Opaque page cursor: the view scope and generation it was issued for plus the next offset. */
+export function encodeCursor(
+  scope: string,
+  generation: number,
+  offset: number,
+) {
+  return btoa(`${scope}:${generation}:${offset}`)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Offset encoded in `cursor`; rejects malformed cursors, ones issued for
+ * another scope (400) and ones issued for an older generation (409).
+ */
+export function decodeCursor(
+  cursor: string,
+  scope: string,
+  generation: number,
+) {
+  let decoded = "";
+  try {
+    decoded = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+  } catch {
+    // handled below like any other malformed cursor
+  }
+  const match = /^([a-z0-9-]+):(\d+):(\d+)$/.exec(decoded);
+  if (!match) {
+    throw new ValidationError("request failed validation", [
+      { field: "cursor", message: "cursor is malformed" },
+    ]);
+  }
+  if (match[1] !== scope) {
+    throw new ValidationError("request failed validation", [
+      {
+        field: "cursor",
+        message: "cursor was issued for another export or resolution",
+      },
+    ]);
+  }
+  if (Number(match[2]) !== generation) {
+    throw new ApiError(
+      409,
+      "the data was replaced since this cursor was issued, start again without a cursor",
+    );
+  }
+  return Number(match[3]);
+}
+
+/**
+ * Response for an export of `view`:
+ * - `ndjson`: one item per line, streamed; `x-next-cursor` is set when `limit` cut it short
+ * - `json` with `limit`/`cursor`: a page `{ items, total, next_cursor }`
+ * - `json` otherwise: the whole collection as a streamed JSON array
+ * - `geojson`: a FeatureCollection of `toFeatures(item)`, paged the same way as
+ *   `json` with `total`/`next_cursor` as foreign members
+ */
+export function exportResponse<T>(
+  view: ExportView<T>,
+  opts: ExportOptions,
+  toFeatures?: (key: string, item: T) => Array<Feature>,
+): Response {
+  const total = view.keys.length;
+  const offset = opts.cursor
+    ? decodeCursor(opts.cursor, view.scope, view.generation)
+    : 0;
+  const end = opts.limit === undefined
+    ? total
+    : Math.min(total, offset + opts.limit);
+  const nextCursor = end < total
+    ? encodeCursor(view.scope, view.generation, end)
+    : null;
+
+  const paginated = opts.limit !== undefined || opts.cursor !== undefined;
+
+  if (opts.format === "geojson") {
+    if (!toFeatures) {
+      throw new ValidationError("geojson is not available for this export");
+    }
+    if (paginated) {
+      const features = collect(view, offset, end, toFeatures);
+      return new Response(
+        JSON.stringify({
+          type: "FeatureCollection",
+          features,
+          total,
+          next_cursor: nextCursor,
+        }),
+        { headers: { "content-type": GEOJSON_CONTENT_TYPE } },
+      );
+    }
+    return new Response(
+      itemStream(view, 0, total, toFeatures, "featureCollection"),
+      { headers: { "content-type": GEOJSON_CONTENT_TYPE } },
+    );
+  }
+
+  const asItem = (_key: string, item: T) => [item];
+
+  if (opts.format === "ndjson") {
+    const headers = new Headers({ "content-type": "application/x-ndjson" });
+    if (nextCursor) headers.set("x-next-cursor", nextCursor);
+    return new Response(
+      itemStream(view, offset, end, asItem, "lines"),
+      { headers },
+    );
+  }
+
+  if (paginated) {
+    const items = collect(view, offset, end, asItem);
+    return Response.json({ items, total, next_cursor: nextCursor });
+  }
+
+  return new Response(itemStream(view, 0, total, asItem, "array"), {
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function collect<T>(
+  view: ExportView<T>,
+  from: number,
+  to: number,
+  expand: (key: string, item: T) => Array<unknown>,
+) {
+  const out: Array<unknown> = [];
+  for (let i = from; i < to; i++) {
+    const item = view.get(view.keys[i]);
+    if (item !== undefined) out.push(...expand(view.keys[i], item));
+  }
+  return out;
+}
+
+const FRAMES = {
+  lines: { open: "", close: "" },
+  array: { open: "[", close: "]" },
+  featureCollection: {
+    open: '{"type":"FeatureCollection","features":[',
+    close: "]}",
+  },
+};
+
+// Serialises view items [from, to) lazily, one chunk per pull, so the body is
+// never held in memory as a whole. `expand` maps an item to the values written for it.
+function itemStream<T>(
+  view: ExportView<T>,
+  from: number,
+  to: number,
+  expand: (key: string, item: T) => Array<unknown>,
+  framing: keyof typeof FRAMES,
+) {
+  const encoder = new TextEncoder();
+  const { open, close } = FRAMES[framing];
+  let i = from;
+  let first = true;
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (open) controller.enqueue(encoder.encode(open));
+    },
+    pull(controller) {
+      const stop = Math.min(to, i + STREAM_CHUNK_SIZE);
+      let chunk = "";
+      for (; i < stop; i++) {
+        const key = view.keys[i];
+        const item = view.get(key);
+        if (item === undefined) continue;
+        for (const value of expand(key, item)) {
+          const json = JSON.stringify(value);
+          if (framing === "lines") {
+            chunk += json + "\n";
+          } else {
+            chunk += (first ? "" : ",") + json;
+            first = false;
+          }
+        }
+      }
+      if (chunk) controller.enqueue(encoder.encode(chunk));
+      if (i >= to) {
+        if (close) controller.enqueue(encoder.encode(close));
+        controller.close();
+      }
+    },
+  });
+}
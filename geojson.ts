@@ -0,0 +1,111 @@
+import * as h3 from "h3-js";
+import type { Cell, HotspotWeather, RiskHotspot } from "./types.ts";
+
+// length of the heading-direction line drawn from a hotspot
+const HEADING_LINE_LENGTH_M = 150;
+
+export type Position = [number, number]; // [lng, lat]
+
+export type Geometry =
+  | { type: "Point"; coordinates: Position }
+  | { type: "LineString"; coordinates: Array<Position> }
+  | { type: "Polygon"; coordinates: Array<Array<Position>> };
+
+export type Feature = {
+  type: "Feature";
+  id?: string;
+  geometry: Geometry;
+  properties: Record<string, unknown>;
+};
+
+export type FeatureCollection = {
+  type: "FeatureCollection";
+  features: Array<Feature>;
+};
+
+export const GEOJSON_CONTENT_TYPE = "application/geo+json";
+
+export function featureCollection(features: Array<Feature>): FeatureCollection {
+  return { type: "FeatureCollection", features };
+}
+
+/** Cell as a polygon of its H3 boundary, with flattened environment properties. */
+export function cellToFeature(cell: Cell & { distance_m?: number }): Feature {
+  const h3Index = cell.location.h3_index;
+  const { conditions, ...environment } = cell.environment;
+  return {
+    type: "Feature",
+    id: h3Index,
+    geometry: {
+      type: "Polygon",
+      coordinates: [h3.cellToBoundary(h3Index, true) as Array<Position>],
+    },
+    properties: {
+      h3_index: h3Index,
+      last: cell.timeframe.last,
+      ...cell.metadata,
+      ...environment,
+      ...conditions,
+      ...(cell.statistics ? { statistics: cell.statistics } : {}),
+      ...(cell.distance_m !== undefined ? { distance_m: cell.distance_m } : {}),
+    },
+  };
+}
+
+/**
+ * Hotspot as a point feature; with `withHeading` it is followed by a line
+ * feature pointing in the average vehicle heading. `weather` of the hotspot's
+ * cell and the distance of a radius query are added to the point's properties.
+ */
+export function hotspotToFeatures(
+  id: string,
+  hotspot: RiskHotspot & { distance_m?: number },
+  opts?: { withHeading?: boolean; weather?: HotspotWeather },
+): Array<Feature> {
+  const { latitude, longitude } = hotspot.location;
+  const { risk, ...metadata } = hotspot.metadata;
+  const point: Feature = {
+    type: "Feature",
+    id,
+    geometry: { type: "Point", coordinates: [longitude, latitude] },
+    properties: {
+      kind: "hotspot",
+      risk_type: risk.type,
+      importance: risk.importance,
+      confidence: risk.confidence,
+      residual_confidence: risk.residual_confidence,
+      ...metadata,
+      first: hotspot.timeframe.first,
+      last: hotspot.timeframe.last,
+      location_std_dev: hotspot.location.std_dev,
+      heading: hotspot.vehicle.heading.avg,
+      heading_std_dev: hotspot.vehicle.heading.std_dev,
+      conditions: hotspot.environment.conditions,
+      ...(hotspot.distance_m !== undefined
+        ? { distance_m: hotspot.distance_m }
+        : {}),
+      ...(opts?.weather ? { weather: opts.weather } : {}),
+    },
+  };
+  if (!opts?.withHeading) return [point];
+
+  // heading is clockwise from north; a flat-earth offset is fine at this length
+  const rad = hotspot.vehicle.heading.avg * Math.PI / 180;
+  const dLat = HEADING_LINE_LENGTH_M * Math.cos(rad) / 111_320;
+  const dLng = HEADING_LINE_LENGTH_M * Math.sin(rad) /
+    (111_320 * Math.cos(latitude * Math.PI / 180));
+  const heading: Feature = {
+    type: "Feature",
+    id: `${id}:heading`,
+    geometry: {
+      type: "LineString",
+      coordinates: [[longitude, latitude], [longitude + dLng, latitude + dLat]],
+    },
+    properties: {
+      kind: "heading",
+      hotspot: id,
+      heading: hotspot.vehicle.heading.avg,
+    },
+  };
+  return [point, heading];
+}
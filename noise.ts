@@ -0,0 +1,67 @@
+// Smooth pseudo-random fields for the simulated weather: nearby points and
+// nearby moments get similar values, unlike independent per-cell rolls.
+
+// standard deviation of fractalNoise3 around its 0.5 mean (3 octaves, measured)
+const FRACTAL_NOISE_SD = 0.121;
+
+function hash3(seed: number, x: number, y: number, z: number) {
+  let h = seed ^ Math.imul(x, 0x27d4eb2d) ^ Math.imul(y, 0x165667b1) ^
+    Math.imul(z, 0x9e3779b1);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/** Value noise in 0..1 varying smoothly in x, y and z, with one lattice step per unit. */
+export function valueNoise3(seed: number, x: number, y: number, z: number) {
+  const ix = Math.floor(x), iy = Math.floor(y), iz = Math.floor(z);
+  const fx = smoothstep(x - ix), fy = smoothstep(y - iy);
+  const fz = smoothstep(z - iz);
+  const c = (dx: number, dy: number, dz: number) =>
+    hash3(seed, ix + dx, iy + dy, iz + dz);
+  return lerp(
+    lerp(
+      lerp(c(0, 0, 0), c(1, 0, 0), fx),
+      lerp(c(0, 1, 0), c(1, 1, 0), fx),
+      fy,
+    ),
+    lerp(
+      lerp(c(0, 0, 1), c(1, 0, 1), fx),
+      lerp(c(0, 1, 1), c(1, 1, 1), fx),
+      fy,
+    ),
+    fz,
+  );
+}
+
+/**
+ * Three octaves of valueNoise3, each at twice the frequency and half the
+ * weight of the previous, mapped through the normal CDF so the result is
+ * roughly uniform in 0..1: `fractalNoise3(...) < p` holds on about a share p
+ * of the area, in contiguous patches.
+ */
+export function fractalNoise3(seed: number, x: number, y: number, z: number) {
+  let sum = 0, weight = 0, amplitude = 1, frequency = 1;
+  for (let octave = 0; octave < 3; octave++) {
+    sum += amplitude *
+      valueNoise3(seed + octave, x * frequency, y * frequency, z * frequency);
+    weight += amplitude;
+    amplitude /= 2;
+    frequency *= 2;
+  }
+  return normalCdf((sum / weight - 0.5) / FRACTAL_NOISE_SD);
+}
+
+// Abramowitz & Stegun 7.1.26, accurate to about 1e-7
+function normalCdf(z: number) {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 +
+    t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 +
+                t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
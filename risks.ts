@@ -0,0 +1,96 @@
+import type { HotspotCondition } from "./types.ts";
+
+export type RiskType = {
+  code: string;
+  name: string;
+  description: string;
+  // hotspot conditions that are common at incidents of this type
+  conditions: ReadonlyArray<HotspotCondition>;
+};
+
+/** Types of road safety risk a hotspot can stand for. */
+export const RISK_TYPES = [
+  {
+    code: "BDV",
+    name: "Broken-down vehicle",
+    description:
+      "A vehicle stopped on or beside the carriageway after a breakdown.",
+    conditions: [],
+  },
+  {
+    code: "VA",
+    name: "Vehicle accident",
+    description: "A collision reported by a vehicle involved or passing by.",
+    conditions: ["wet_road", "slippery_road"],
+  },
+  {
+    code: "GW",
+    name: "Wrong-way driver",
+    description:
+      "A vehicle travelling against the traffic, typically after joining at a ramp or junction.",
+    conditions: [],
+  },
+  {
+    code: "HL",
+    name: "Hazard lights",
+    description:
+      "Vehicles switching on their hazard lights, usually at the tail of a sudden queue.",
+    conditions: [],
+  },
+  {
+    code: "SR",
+    name: "Slippery road",
+    description:
+      "Wheel slip or stability control interventions on a slick surface.",
+    conditions: ["slippery_road", "wet_road"],
+  },
+  {
+    code: "FOG",
+    name: "Fog",
+    description: "Fog lights on and speeds dropping in poor visibility.",
+    conditions: ["fog"],
+  },
+  {
+    code: "HR",
+    name: "Heavy rain",
+    description: "Wipers at full speed and spray reducing visibility.",
+    conditions: ["rain", "wet_road"],
+  },
+  {
+    code: "EB",
+    name: "Emergency braking",
+    description: "Hard braking or an emergency brake assist intervention.",
+    conditions: ["wet_road"],
+  },
+  {
+    code: "CW",
+    name: "Cross wind",
+    description:
+      "Strong gusts across the road pushing vehicles off their line.",
+    conditions: ["crosswind"],
+  },
+  {
+    code: "PH",
+    name: "Pothole",
+    description: "Damaged road surface felt as a hard jolt by the suspension.",
+    conditions: [],
+  },
+  {
+    code: "BUM",
+    name: "Bump",
+    description:
+      "An uneven surface, such as a raised joint or a frost heave, that unsettles vehicles at speed.",
+    conditions: [],
+  },
+] as const satisfies ReadonlyArray<RiskType>;
+
+export type RiskTypeCode = typeof RISK_TYPES[number]["code"];
+
+export const RISK_TYPE_CODES: Array<RiskTypeCode> = RISK_TYPES.map((type) =>
+  type.code
+);
+
+/** Catalogue entry of a risk type code. */
+export function riskType(code: RiskTypeCode): RiskType {
+  return RISK_TYPES.find((type) => type.code === code)!;
+}
@@ -0,0 +1,127 @@
+import * as h3 from "h3-js";
+import type { Cell, H3Index, RainIntensity, RoadCondition } from "./types.ts";
+
+const RAD = Math.PI / 180;
+
+// least to most hazardous; a parent takes the worst condition among its children
+const ROAD_CONDITION_SEVERITY: Array<RoadCondition> = [
+  "UNRECOGNIZED",
+  "DRY",
+  "WET",
+  "SLIPPERY_WET",
+  "SLIPPERY",
+  "SLIPPERY_ICE",
+];
+
+type Accumulator = {
+  weight: number; // summed total_count of the children
+  totalCount: number;
+  temperature: number; // weighted sum
+  confidence: number; // weighted sum
+  last: string;
+  roadCondition: RoadCondition;
+  rain: Map<RainIntensity, number>; // weight per intensity
+  fog: number; // weight of children with fog
+  crossWind: number;
+  night: number;
+  sunElevation: number; // weighted sum
+  sunX: number; // weighted sum of azimuth unit vectors
+  sunY: number;
+};
+
+/**
+ * Cells aggregated into their parents at a coarser H3 `resolution`:
+ * temperature and confidence are weighted by `total_count`, counts are summed,
+ * the road condition is the worst among the children and the rain intensity,
+ * fog, cross wind and night flags follow the weighted majority. The sun is
+ * the weighted mean of the children's, its azimuth averaged as a direction.
+ */
+export function rollUpCells(
+  cells: Iterable<Cell>,
+  resolution: number,
+): Map<H3Index, Cell> {
+  const acc = new Map<H3Index, Accumulator>();
+  for (const cell of cells) {
+    const parent = h3.cellToParent(cell.location.h3_index, resolution);
+    let a = acc.get(parent);
+    if (!a) {
+      a = {
+        weight: 0,
+        totalCount: 0,
+        temperature: 0,
+        confidence: 0,
+        last: cell.timeframe.last,
+        roadCondition: "UNRECOGNIZED",
+        rain: new Map(),
+        fog: 0,
+        crossWind: 0,
+        night: 0,
+        sunElevation: 0,
+        sunX: 0,
+        sunY: 0,
+      };
+      acc.set(parent, a);
+    }
+    const { environment, metadata } = cell;
+    const { conditions } = environment;
+    // a cell nobody reported from still counts, just barely
+    const w = Math.max(metadata.total_count, 1e-3);
+    a.weight += w;
+    a.totalCount += metadata.total_count;
+    a.temperature += environment.temperature * w;
+    a.confidence += metadata.confidence * w;
+    if (cell.timeframe.last > a.last) a.last = cell.timeframe.last;
+    if (
+      ROAD_CONDITION_SEVERITY.indexOf(conditions.road_condition) >
+        ROAD_CONDITION_SEVERITY.indexOf(a.roadCondition)
+    ) {
+      a.roadCondition = conditions.road_condition;
+    }
+    a.rain.set(
+      conditions.rain_intensity,
+      (a.rain.get(conditions.rain_intensity) ?? 0) + w,
+    );
+    if (conditions.fog) a.fog += w;
+    if (conditions.cross_wind) a.crossWind += w;
+    if (environment.is_night) a.night += w;
+    a.sunElevation += environment.sun.elevation * w;
+    a.sunX += Math.sin(environment.sun.azimuth * RAD) * w;
+    a.sunY += Math.cos(environment.sun.azimuth * RAD) * w;
+  }
+
+  const out = new Map<H3Index, Cell>();
+  for (const [parent, a] of acc) {
+    let rainIntensity: RainIntensity = "NONE";
+    let rainWeight = -1;
+    for (const [intensity, weight] of a.rain) {
+      if (weight > rainWeight) {
+        [rainIntensity, rainWeight] = [intensity, weight];
+      }
+    }
+    out.set(parent, {
+      location: { h3_index: parent },
+      timeframe: { last: a.last },
+      metadata: {
+        confidence: Math.round(a.confidence / a.weight),
+        total_count: a.totalCount,
+      },
+      environment: {
+        temperature: Math.round(a.temperature / a.weight * 10) / 10,
+        is_night: a.night * 2 > a.weight,
+        sun: {
+          elevation: Math.round(a.sunElevation / a.weight * 10) / 10,
+          azimuth:
+            Math.round((Math.atan2(a.sunX, a.sunY) / RAD + 360) % 360 * 10) /
+            10,
+        },
+        conditions: {
+          rain_intensity: rainIntensity,
+          road_condition: a.roadCondition,
+          fog: a.fog * 2 > a.weight,
+          cross_wind: a.crossWind * 2 > a.weight,
+        },
+      },
+    });
+  }
+  return out;
+}
@@ -0,0 +1,182 @@
+import * as v from "@valibot/valibot";
+import { bearingDeg, haversineKm } from "./spatial.ts";
+import type { BoundingBox } from "./types.ts";
+import {
+  type Scenario,
+  scenarioSchema,
+  type WeatherSystem,
+} from "./validation.ts";
+
+// named scenarios shipped with the mock
+export const SCENARIO_DIR = new URL("./scenarios/", import.meta.url);
+
+const KM_PER_DEG_LAT = 110.57;
+
+/** How strongly the active systems push observations at one location (0..1 each). */
+export type WeatherInfluence = {
+  rain: number;
+  ice: number;
+  fog: number;
+  temperatureOffset: number;
+};
+
+export type WeatherSystemState = {
+  active: boolean;
+  lat: number;
+  lng: number;
+  heading: number; // direction of travel, degrees clockwise from north
+  intensity: number;
+};
+
+/** Position, heading and intensity of a system `elapsedMin` after the scenario started. */
+export function systemStateAt(
+  system: WeatherSystem,
+  elapsedMin: number,
+): WeatherSystemState {
+  const t = elapsedMin - system.start_min;
+  const { path } = system;
+
+  // walk the path by distance travelled, stopping at its last point
+  let remaining = system.speed_kmh * Math.max(0, t) / 60;
+  let pathLength = 0;
+  let [lat, lng] = path[0];
+  let heading = path.length > 1
+    ? bearingDeg(path[0][0], path[0][1], path[1][0], path[1][1])
+    : 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    const [aLat, aLng] = path[i], [bLat, bLng] = path[i + 1];
+    const segment = haversineKm(aLat, aLng, bLat, bLng);
+    pathLength += segment;
+    if (remaining <= 0) continue;
+    heading = bearingDeg(aLat, aLng, bLat, bLng);
+    const frac = Math.min(1, remaining / Math.max(segment, 1e-9));
+    lat = aLat + (bLat - aLat) * frac;
+    lng = aLng + (bLng - aLng) * frac;
+    remaining -= segment;
+  }
+
+  const travelled = system.speed_kmh * t / 60;
+  const active = t >= 0 &&
+    (system.duration_min !== undefined
+      ? t <= system.duration_min
+      : path.length === 1 || travelled <= pathLength);
+
+  return { active, lat, lng, heading, intensity: intensityAt(system, t) };
+}
+
+function intensityAt(system: WeatherSystem, t: number) {
+  const keys = system.intensity;
+  if (t <= keys[0].at_min) return keys[0].value;
+  for (let i = 0; i < keys.length - 1; i++) {
+    const a = keys[i], b = keys[i + 1];
+    if (t <= b.at_min) {
+      const frac = (t - a.at_min) / Math.max(b.at_min - a.at_min, 1e-9);
+      return a.value + (b.value - a.value) * frac;
+    }
+  }
+  return keys[keys.length - 1].value;
+}
+
+// 1 in the centre of the footprint falling to 0 at its edge
+function footprintWeight(
+  system: WeatherSystem,
+  state: WeatherSystemState,
+  lat: number,
+  lng: number,
+) {
+  const dx = (lng - state.lng) * KM_PER_DEG_LAT *
+    Math.cos(state.lat * Math.PI / 180);
+  const dy = (lat - state.lat) * KM_PER_DEG_LAT;
+  let q: number;
+  if (system.shape.type === "circle") {
+    q = (dx * dx + dy * dy) / system.shape.radius_km ** 2;
+  } else {
+    const o = (system.shape.orientation_deg ?? state.heading + 90) * Math.PI /
+      180;
+    const along = dx * Math.sin(o) + dy * Math.cos(o);
+    const across = dx * Math.cos(o) - dy * Math.sin(o);
+    q = (along / (system.shape.major_km / 2)) ** 2 +
+      (across / (system.shape.minor_km / 2)) ** 2;
+  }
+  return q < 1 ? 1 - q : 0;
+}
+
+/** Bounding box of a system's footprint in its current position. */
+export function footprintBbox(
+  system: WeatherSystem,
+  state: WeatherSystemState,
+): BoundingBox {
+  const extentKm = system.shape.type === "circle"
+    ? system.shape.radius_km
+    : system.shape.major_km / 2;
+  const dLat = extentKm / KM_PER_DEG_LAT;
+  const dLng = extentKm /
+    (KM_PER_DEG_LAT * Math.cos(state.lat * Math.PI / 180));
+  return [
+    state.lng - dLng,
+    state.lat - dLat,
+    state.lng + dLng,
+    state.lat + dLat,
+  ];
+}
+
+/** Combined influence of all active systems at lat/lng; overlapping systems of one kind take the stronger. */
+export function influenceAt(
+  scenario: Scenario,
+  elapsedMin: number,
+  lat: number,
+  lng: number,
+): WeatherInfluence {
+  const out: WeatherInfluence = {
+    rain: 0,
+    ice: 0,
+    fog: 0,
+    temperatureOffset: 0,
+  };
+  for (const system of scenario.systems) {
+    const state = systemStateAt(system, elapsedMin);
+    if (!state.active) continue;
+    const strength = state.intensity *
+      footprintWeight(system, state, lat, lng);
+    if (strength <= 0) continue;
+    switch (system.kind) {
+      case "rain":
+        out.rain = Math.max(out.rain, strength);
+        break;
+      case "ice_storm":
+        // freezing rain: precipitation that glazes the road
+        out.rain = Math.max(out.rain, strength * 0.6);
+        out.ice = Math.max(out.ice, strength);
+        break;
+      case "fog":
+        out.fog = Math.max(out.fog, strength);
+        break;
+    }
+    out.temperatureOffset += system.temperature_offset * strength;
+  }
+  return out;
+}
+
+/** Read and validate a scenario file; a bare name refers to SCENARIO_DIR/<name>.json. */
+export async function loadScenarioFile(pathOrName: string): Promise<Scenario> {
+  const path = /^[a-z0-9][a-z0-9_-]*$/.test(pathOrName)
+    ? new URL(`${pathOrName}.json`, SCENARIO_DIR)
+    : pathOrName;
+  return v.parse(scenarioSchema, JSON.parse(await Deno.readTextFile(path)));
+}
+
+/** Named scenarios available in SCENARIO_DIR. */
+export async function listScenarioFiles() {
+  const out: Array<{ name: string; description?: string }> = [];
+  for await (const entry of Deno.readDir(SCENARIO_DIR)) {
+    if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+    const name = entry.name.slice(0, -".json".length);
+    try {
+      const { description } = await loadScenarioFile(name);
+      out.push({ name, description });
+    } catch (error) {
+      console.warn(`skipping invalid scenario ${entry.name}:`, error);
+    }
+  }
+  return out.sort((a, b) => a.name.localeCompare(b.name));
+}
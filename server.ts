@@ -1,107 +1,904 @@
 import * as v from "@valibot/valibot";
-import { Application, Router } from "@oak/oak";
 import {
+  Application,
+  type Context,
+  Router,
+  type RouterContext,
+  ServerSentEvent,
+} from "@oak/oak";
+import * as h3 from "h3-js";
+import {
+  checkpointNameParams,
+  clockJumpSchema,
+  clockSpeedSchema,
+  type Config,
+  polygonQuerySchema,
+  rawWeatherEventSchema,
+  roadSafetyHistoryParams,
+  roadSafetyHotspotParams,
+  type RoadSafetyHotspotsFilters,
+  roadSafetyHotspotsPolygonSearchParams,
   roadSafetyHotspotsSearchParams,
+  roadSafetyRouteSearchParams,
+  roadSafetySnapshotSearchParams,
+  routeQuerySchema,
+  scenarioNameParams,
+  scenarioSchema,
+  type SnapshotSearchParams,
+  type UpdatesSearchParams,
+  updatesSearchParams,
+  weatherCellsPolygonSearchParams,
   weatherCellsSearchParams,
+  weatherHistoryParams,
+  weatherHistorySearchParams,
+  weatherSnapshotSearchParams,
 } from "./validation.ts";
+import {
+  ApiError,
+  errorHandler,
+  NotFoundError,
+  parseOrThrow,
+  type ProblemIssue,
+  toProblemIssues,
+  ValidationError,
+} from "./errors.ts";
+import {
+  listCheckpoints,
+  loadCheckpoint,
+  saveCheckpoint,
+} from "./checkpoint.ts";
+import { loadConfig } from "./config.ts";
+import { type ExportOptions, exportResponse } from "./export.ts";
+import {
+  cellToFeature,
+  type Feature,
+  featureCollection,
+  GEOJSON_CONTENT_TYPE,
+  hotspotToFeatures,
+} from "./geojson.ts";
+import { RISK_TYPES, type RiskTypeCode } from "./risks.ts";
+import { listScenarioFiles, loadScenarioFile } from "./scenario.ts";
+import { haversineKm, pointInPolygons, routeLengthKm } from "./spatial.ts";
+import { SimulationClock } from "./clock.ts";
 import { Simulation } from "./simulation.ts";
+import type {
+  BoundingBox,
+  Cell,
+  HotspotWeather,
+  Polygons,
+  RiskHotspot,
+  SnapshotChanges,
+} from "./types.ts";
 
 const app = new Application();
-const router = new Router();
+// production-shaped contract documented in endpoints.md
+const api = new Router({ prefix: "/api/v1" });
+// mock-only snapshot and debug routes
+const mock = new Router({ prefix: "/mock/v1" });
+const index = new Router();
+let config: Config;
+try {
+  config = await loadConfig();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  Deno.exit(1);
+}
+console.log("config:", config);
 const simulation = new Simulation({
-  targetCellCount: 50_000,
-  snapshotIntervalMs: 900_000,
-  seed: Date.now(),
-  resolution: 7,
-  targetHotspotCount: 50,
-});
-console.time("generateInitialData");
-await simulation.generateInitialData();
-console.timeEnd("generateInitialData");
+  targetCellCount: config.target_cell_count,
+  snapshotIntervalMs: config.snapshot_interval_ms,
+  seed: config.seed,
+  resolution: config.resolution,
+  targetHotspotCount: config.target_hotspot_count,
+  eventBatchSize: config.event_batch_size,
+  sampling: {
+    city: config.p_city,
+    outskirts: config.p_outskirts,
+    highway: config.p_highway,
+    roads: config.p_roads,
+  },
+  bounds: config.bounds,
+  hotspotHistoryDays: config.hotspot_history_days,
+  weatherHistoryDays: config.weather_history_days,
+  clock: new SimulationClock({
+    start: config.start_time,
+    stepped: config.deterministic,
+  }),
+});
+if (config.checkpoint) {
+  try {
+    simulation.restoreState(await loadCheckpoint(config.checkpoint));
+  } catch (error) {
+    const issues = error instanceof ApiError && error.issues
+      ? error.issues.map(({ field, message }) =>
+        `\n  ${field ?? "checkpoint"}: ${message}`
+      ).join("")
+      : "";
+    console.error(
+      `cannot restore checkpoint ${config.checkpoint}: ${
+        error instanceof Error ? error.message : error
+      }${issues}`,
+    );
+    Deno.exit(1);
+  }
+  console.log(`restored checkpoint: ${config.checkpoint}`);
+} else {
+  console.time("generateInitialData");
+  await simulation.generateInitialData();
+  console.timeEnd("generateInitialData");
+}
+if (config.scenario) {
+  simulation.loadScenario(await loadScenarioFile(config.scenario));
+  console.log(`scenario: ${config.scenario}`);
+}
 simulation.start();
 
-router.get("/mock/v1/road-safety/hotspots", (ctx) => {
+const accepts = (ctx: Context, mediaType: string) =>
+  ctx.request.headers.get("accept")?.includes(mediaType) ?? false;
+
+// GeoJSON is chosen with format=geojson, or by Accept when no format is given
+const wantsGeoJson = (ctx: Context, format?: string) =>
+  format === "geojson" ||
+  (format === undefined && accepts(ctx, GEOJSON_CONTENT_TYPE));
+
+const readJson = async (ctx: Context): Promise<unknown> => {
   try {
-    const searchParams = v.parse(
-      roadSafetyHotspotsSearchParams,
-      Object.fromEntries(ctx.request.url.searchParams),
+    return await ctx.request.body.json();
+  } catch {
+    throw new ValidationError("request body is not valid JSON");
+  }
+};
+
+const geoJsonResponse = (features: Array<Feature>) =>
+  new Response(JSON.stringify(featureCollection(features)), {
+    headers: { "content-type": GEOJSON_CONTENT_TYPE },
+  });
+
+type FoundHotspot = RiskHotspot & { distance_m?: number };
+
+// min_confidence and type filters of the hotspot queries
+const hotspotMatches = (
+  hotspot: RiskHotspot,
+  { min_confidence, type }: {
+    min_confidence: number;
+    type?: Array<RiskTypeCode>;
+  },
+) =>
+  hotspot.metadata.risk.confidence > min_confidence &&
+  (type ? type.includes(hotspot.metadata.risk.type) : true);
+
+// filters and renders the hotspots found in a query area
+const hotspotsResponse = (
+  ctx: Context,
+  found: Record<string, FoundHotspot>,
+  searchParams: RoadSafetyHotspotsFilters,
+) => {
+  const hotspots = Object.entries(found).filter(([, hotspot]) =>
+    hotspotMatches(hotspot, searchParams)
+  );
+
+  // each with the weather of its cell when the snapshot has one; with
+  // weather_elevated only those that weather currently elevates
+  const results: Array<[string, FoundHotspot, HotspotWeather?]> = hotspots
+    .map(([id, hotspot]): [string, FoundHotspot, HotspotWeather?] => [
+      id,
+      hotspot,
+      simulation.getHotspotWeather(id),
+    ])
+    .filter(([, , weather]) =>
+      !searchParams.weather_elevated || Boolean(weather?.elevated_by.length)
     );
 
-    return ctx.response.with(
-      Response.json(
-        Object.values(simulation.getHotspotsInBbox(searchParams.bbox)).filter(
-          (hotspot) =>
-            hotspot.metadata.risk.confidence > searchParams.min_confidence &&
-            (searchParams.type
-              ? searchParams.type.includes(hotspot.metadata.risk.type)
-              : true),
-        ),
+  if (wantsGeoJson(ctx, searchParams.format)) {
+    return ctx.response.with(geoJsonResponse(
+      results.flatMap(([id, hotspot, weather]) =>
+        hotspotToFeatures(id, hotspot, {
+          withHeading: searchParams.with_heading,
+          weather,
+        })
       ),
+    ));
+  }
+  return ctx.response.with(
+    Response.json(
+      results.map(([, hotspot, weather]) =>
+        weather ? { ...hotspot, weather } : hotspot
+      ),
+    ),
+  );
+};
+
+const getRoadSafetyHotspots = (ctx: Context) => {
+  const searchParams = parseOrThrow(
+    roadSafetyHotspotsSearchParams,
+    Object.fromEntries(ctx.request.url.searchParams),
+  );
+  const { bbox, lat, lng, radius_m } = searchParams;
+  const found = bbox
+    ? simulation.getHotspotsInBbox(bbox)
+    : simulation.getHotspotsInRadius(lat!, lng!, radius_m!);
+  return hotspotsResponse(ctx, found, searchParams);
+};
+
+// the area is a GeoJSON polygon in the request body
+const searchRoadSafetyHotspots = async (ctx: Context) => {
+  const searchParams = parseOrThrow(
+    roadSafetyHotspotsPolygonSearchParams,
+    Object.fromEntries(ctx.request.url.searchParams),
+  );
+  const polygons = parseOrThrow(polygonQuerySchema, await readJson(ctx));
+  return hotspotsResponse(
+    ctx,
+    simulation.getHotspotsInPolygons(polygons),
+    searchParams,
+  );
+};
+
+api.get("/road-safety/hotspots", getRoadSafetyHotspots);
+mock.get("/road-safety/hotspots", getRoadSafetyHotspots);
+api.post("/road-safety/hotspots", searchRoadSafetyHotspots);
+mock.post("/road-safety/hotspots", searchRoadSafetyHotspots);
+
+// a single hotspot, for detail views that link to it by id
+const getRoadSafetyHotspot = (
+  ctx: RouterContext<"/road-safety/hotspots/:id">,
+) => {
+  const { id } = parseOrThrow(roadSafetyHotspotParams, ctx.params);
+  const hotspot = simulation.getHotspot(id);
+  if (!hotspot) throw new NotFoundError(`no hotspot with id ${id}`);
+  const weather = simulation.getHotspotWeather(id);
+  return ctx.response.with(
+    Response.json(weather ? { ...hotspot, weather } : hotspot),
+  );
+};
+
+api.get("/road-safety/hotspots/:id", getRoadSafetyHotspot);
+mock.get("/road-safety/hotspots/:id", getRoadSafetyHotspot);
+
+// Hotspots in a corridor around a planned route that match its direction of
+// travel, and the weather cells it crosses, both in driving order.
+const assessRoute = async (ctx: Context) => {
+  const searchParams = parseOrThrow(
+    roadSafetyRouteSearchParams,
+    Object.fromEntries(ctx.request.url.searchParams),
+  );
+  const route = parseOrThrow(routeQuerySchema, await readJson(ctx));
+  return ctx.response.with(Response.json({
+    length_m: Math.round(routeLengthKm(route) * 1000),
+    corridor_m: searchParams.corridor_m,
+    hotspots: simulation
+      .getHotspotsAlongRoute(route, searchParams.corridor_m)
+      .filter(([, hotspot]) => hotspotMatches(hotspot, searchParams))
+      .map(([, hotspot]) => hotspot),
+    cells: simulation.getCellsAlongRoute(route),
+  }));
+};
+
+api.post("/road-safety/route", assessRoute);
+mock.post("/road-safety/route", assessRoute);
+
+// catalogue of the codes in metadata.risk.type, accepted by the type filters
+const getRiskTypes = (ctx: Context) =>
+  ctx.response.with(Response.json(RISK_TYPES));
+
+api.get("/road-safety/risk-types", getRiskTypes);
+mock.get("/road-safety/risk-types", getRiskTypes);
+
+api.get("/road-safety/history/:date", (ctx) => {
+  const { date } = parseOrThrow(roadSafetyHistoryParams, ctx.params);
+  const hotspots = simulation.getHotspotHistory(date);
+  if (!hotspots) {
+    const range = simulation.getHotspotHistoryRange();
+    throw new NotFoundError(
+      range
+        ? `no hotspot history for ${date}, retained range is ${range.from} to ${range.to}`
+        : `no hotspot history for ${date}`,
     );
-  } catch (error) {
-    return ctx.response.with(Response.json(error));
   }
+
+  return ctx.response.with(Response.json(Object.values(hotspots)));
 });
 
-router.get("/mock/v1/road-safety/snapshot", (ctx) => {
-  try {
-    return ctx.response.with(
-      Response.json(
-        Object.values(simulation.getHotspots())
-      ),
-    );
-  } catch (error) {
-    return ctx.response.with(Response.json(error));
+// Pagination and streaming options shared by the snapshot exports; NDJSON and
+// GeoJSON can be asked for with format=... or the matching Accept header.
+const exportOptions = (
+  ctx: Context,
+  { format, limit, cursor }: SnapshotSearchParams,
+): ExportOptions => {
+  if (!format) {
+    if (accepts(ctx, "application/x-ndjson")) format = "ndjson";
+    else if (accepts(ctx, GEOJSON_CONTENT_TYPE)) format = "geojson";
   }
+  return { format: format ?? "json", limit, cursor };
+};
+
+mock.get("/road-safety/snapshot", (ctx) => {
+  const searchParams = parseOrThrow(
+    roadSafetySnapshotSearchParams,
+    Object.fromEntries(ctx.request.url.searchParams),
+  );
+  return ctx.response.with(
+    exportResponse(
+      simulation.hotspotsView(),
+      exportOptions(ctx, searchParams),
+      (id, hotspot) =>
+        hotspotToFeatures(id, hotspot, {
+          withHeading: searchParams.with_heading,
+        }),
+    ),
+  );
 });
 
-router.get("/mock/v1/weather/snapshot", (ctx) => {
-  console.time("getSnapshot");
-  const snapshot = Object.values(simulation.getSnapshot());
-  console.timeEnd("getSnapshot");
-  console.log("length:", snapshot.length);
-  return ctx.response.with(Response.json(snapshot));
+// H3 resolution to roll cells up to, undefined for the simulation's own
+const rollUpResolution = (resolution?: number) => {
+  if (resolution === undefined || resolution === simulation.resolution) {
+    return undefined;
+  }
+  if (resolution > simulation.resolution) {
+    throw new ValidationError("request failed validation", [{
+      field: "resolution",
+      message:
+        `cells are simulated at H3 resolution ${simulation.resolution}, finer resolutions are not available`,
+    }]);
+  }
+  return resolution;
+};
+
+// Tags a response with the snapshot version it was built from; a client that
+// sends that tag back in If-None-Match gets a 304 until the next swap.
+const withSnapshotVersion = (
+  ctx: Context,
+  variant: string,
+  build: () => Response,
+) => {
+  const version = simulation.snapshotVersion;
+  const etag = `"${version}-${variant}"`;
+  const headers = { "ETag": etag, "X-Snapshot-Version": version };
+  const ifNoneMatch = ctx.request.headers.get("If-None-Match");
+  if (
+    ifNoneMatch?.split(",").some((tag) =>
+      [etag, `W/${etag}`, "*"].includes(tag.trim())
+    )
+  ) {
+    return ctx.response.with(new Response(null, { status: 304, headers }));
+  }
+  const response = build();
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return ctx.response.with(response);
+};
+
+// whether a simulation cell lies in a query area: by its centroid, or by its
+// H3 parent for h3_indexes
+const cellAreaFilter = (area: {
+  bbox?: BoundingBox;
+  h3_indexes?: Array<string>;
+  lat?: number;
+  lng?: number;
+  radius_m?: number;
+  polygons?: Polygons;
+}) => {
+  const { bbox, h3_indexes, lat, lng, radius_m, polygons } = area;
+  if (h3_indexes) {
+    const indexes = new Set(h3_indexes);
+    const resolutions = [...new Set([...indexes].map(h3.getResolution))];
+    return (h3Index: string) => {
+      const own = h3.getResolution(h3Index);
+      return resolutions.some((r) =>
+        r <= own && indexes.has(h3.cellToParent(h3Index, r))
+      );
+    };
+  }
+  return (h3Index: string) => {
+    const [cellLat, cellLng] = h3.cellToLatLng(h3Index);
+    if (bbox) {
+      return cellLng >= bbox[0] && cellLat >= bbox[1] &&
+        cellLng <= bbox[2] && cellLat <= bbox[3];
+    }
+    if (polygons) return pointInPolygons(cellLat, cellLng, polygons);
+    return haversineKm(lat!, lng!, cellLat, cellLng) * 1000 <= radius_m!;
+  };
+};
+
+// cells added, changed or removed since a snapshot version the client has
+const snapshotDelta = (
+  { epoch, generation }: { epoch: string; generation: number },
+  inArea?: (h3Index: string) => boolean,
+) => {
+  const sinceVersion = epoch ? `${epoch}.${generation}` : `${generation}`;
+  if (epoch !== simulation.epoch) {
+    throw new ApiError(
+      410,
+      `snapshot version ${sinceVersion} is from an earlier run of the simulation, fetch the full data again`,
+    );
+  }
+  if (generation > simulation.snapshotGeneration) {
+    throw new ValidationError("request failed validation", [{
+      field: "since_version",
+      message: `the current snapshot version is ${simulation.snapshotVersion}`,
+    }]);
+  }
+  const delta = simulation.getSnapshotDelta(generation, inArea);
+  if (!delta) {
+    throw new ApiError(
+      410,
+      `changes since snapshot version ${sinceVersion} are no longer retained, fetch the full data again`,
+    );
+  }
+  return Response.json({ since_version: sinceVersion, ...delta });
+};
+
+mock.get("/weather/snapshot", (ctx) => {
+  const searchParams = parseOrThrow(
+    weatherSnapshotSearchParams,
+    Object.fromEntries(ctx.request.url.searchParams),
+  );
+  const resolution = rollUpResolution(searchParams.resolution);
+  const options = exportOptions(ctx, searchParams);
+  return withSnapshotVersion(
+    ctx,
+    options.format,
+    () =>
+      searchParams.since_version !== undefined
+        ? snapshotDelta(searchParams.since_version)
+        : exportResponse(
+          resolution === undefined
+            ? simulation.snapshotView()
+            : simulation.snapshotViewAt(resolution),
+          options,
+          (_h3Index, cell) => [cellToFeature(cell)],
+        ),
+  );
 });
 
-router.get("/mock/v1/weather/cells", (ctx) => {
-  try {
-    const searchParams = v.parse(
-      weatherCellsSearchParams,
-      Object.fromEntries(ctx.request.url.searchParams),
+// The part of each snapshot swap inside the subscriber's area: cells by
+// centroid or H3 parent, hotspots by location. Removed entries are listed by key.
+const changesInArea = (
+  changes: SnapshotChanges,
+  { bbox, h3_indexes }: UpdatesSearchParams,
+) => {
+  const cellInArea = cellAreaFilter({ bbox, h3_indexes });
+  const indexes = new Set(h3_indexes);
+  const resolutions = [...new Set([...indexes].map(h3.getResolution))];
+  const hotspotInArea = ({ location }: RiskHotspot) =>
+    bbox
+      ? location.longitude >= bbox[0] && location.latitude >= bbox[1] &&
+        location.longitude <= bbox[2] && location.latitude <= bbox[3]
+      : resolutions.some((r) =>
+        indexes.has(h3.latLngToCell(location.latitude, location.longitude, r))
+      );
+
+  return {
+    version: changes.version,
+    published_at: changes.published_at,
+    cells: {
+      added: Object.fromEntries(
+        [...changes.cells.added].filter(([h3Index]) => cellInArea(h3Index)),
+      ),
+      changed: Object.fromEntries(
+        [...changes.cells.changed].filter(([h3Index]) => cellInArea(h3Index)),
+      ),
+      removed: [...changes.cells.removed.keys()].filter(cellInArea),
+    },
+    hotspots: {
+      changed: Object.fromEntries(
+        [...changes.hotspots.changed].filter(([, hotspot]) =>
+          hotspotInArea(hotspot)
+        ),
+      ),
+      removed: [...changes.hotspots.removed]
+        .filter(([, hotspot]) => hotspotInArea(hotspot))
+        .map(([id]) => id),
+    },
+  };
+};
+
+// Pushes a "snapshot" event with changesInArea after every swap, over a
+// WebSocket when the request asks for an upgrade and as Server-Sent Events otherwise.
+mock.get("/updates", async (ctx) => {
+  const searchParams = parseOrThrow(
+    updatesSearchParams,
+    Object.fromEntries(ctx.request.url.searchParams),
+  );
+
+  if (ctx.isUpgradable) {
+    const socket = ctx.upgrade();
+    const unsubscribe = simulation.onSnapshotChanges((changes) => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+      socket.send(JSON.stringify({
+        type: "snapshot",
+        ...changesInArea(changes, searchParams),
+      }));
+    });
+    socket.addEventListener("close", unsubscribe);
+    return;
+  }
+
+  const target = await ctx.sendEvents();
+  const unsubscribe = simulation.onSnapshotChanges((changes) => {
+    target.dispatchEvent(
+      new ServerSentEvent("snapshot", {
+        data: changesInArea(changes, searchParams),
+        // listeners run during the swap, so this is the generation it made
+        id: simulation.snapshotGeneration,
+      }),
     );
+  });
+  target.addEventListener("close", unsubscribe);
+});
+
+// Requested cells as cells of the roll-up `resolution`: indexes finer than it
+// stand for their parents, coarser ones for the rolled-up cells inside them.
+const indexesAtResolution = (h3Indexes: Array<string>, resolution: number) => {
+  const out = new Set<string>();
+  const coarser: Array<string> = [];
+  for (const h3Index of h3Indexes) {
+    const own = h3.getResolution(h3Index);
+    if (own < resolution) coarser.push(h3Index);
+    else if (own > resolution) out.add(h3.cellToParent(h3Index, resolution));
+    else out.add(h3Index);
+  }
+  if (coarser.length > 0) {
+    const inside = cellAreaFilter({ h3_indexes: coarser });
+    for (const h3Index of simulation.snapshotViewAt(resolution).keys) {
+      if (inside(h3Index)) out.add(h3Index);
+    }
+  }
+  return [...out];
+};
+
+const getWeatherCells = (ctx: Context) => {
+  const searchParams = parseOrThrow(
+    weatherCellsSearchParams,
+    Object.fromEntries(ctx.request.url.searchParams),
+  );
+  const resolution = rollUpResolution(searchParams.resolution);
+  const geoJson = wantsGeoJson(ctx, searchParams.format);
+
+  return withSnapshotVersion(ctx, geoJson ? "geojson" : "json", () => {
+    if (searchParams.since_version !== undefined) {
+      return snapshotDelta(
+        searchParams.since_version,
+        cellAreaFilter(searchParams),
+      );
+    }
 
     if (searchParams.h3_indexes) {
-      const cells = searchParams.h3_indexes.map((h3Index: string) =>
+      const h3Indexes = resolution === undefined
+        ? searchParams.h3_indexes
+        : indexesAtResolution(searchParams.h3_indexes, resolution);
+      const cells = h3Indexes.map((h3Index: string) =>
         simulation.getCell(h3Index, { includeStatistics: true })
-      ).filter(Boolean);
-      return ctx.response.with(Response.json(cells));
+      ).filter((cell) => cell !== undefined);
+      if (cells.length === 0) {
+        throw new NotFoundError(
+          `no weather data for cells ${searchParams.h3_indexes.join(",")}`,
+        );
+      }
+      return geoJson
+        ? geoJsonResponse(cells.map(cellToFeature))
+        : Response.json(cells);
     }
 
-    if (searchParams.bbox) {
-      return ctx.response.with(
-        Response.json(simulation.getSnapshotInBbox(searchParams.bbox)),
+    const { bbox, lat, lng, radius_m } = searchParams;
+    if (bbox) {
+      return cellsResponse(
+        simulation.getSnapshotInBbox(bbox),
+        resolution,
+        geoJson,
+      );
+    }
+    if (radius_m !== undefined) {
+      return cellsResponse(
+        simulation.getSnapshotInRadius(lat!, lng!, radius_m),
+        resolution,
+        geoJson,
       );
     }
 
-    throw { error: "must include either bbox or h3_indexes" };
+    throw new ValidationError(
+      "must include either bbox, lat, lng and radius_m, or h3_indexes",
+    );
+  });
+};
+
+// cells found in a query area, rolled up to `resolution` when given
+const cellsResponse = (
+  found: Record<string, Cell & { distance_m?: number }>,
+  resolution: number | undefined,
+  geoJson: boolean,
+) => {
+  const cells = resolution === undefined
+    ? found
+    : simulation.rollUpToResolution(found, resolution);
+  return geoJson
+    ? geoJsonResponse(Object.values(cells).map(cellToFeature))
+    : Response.json(cells);
+};
+
+// the area is a GeoJSON polygon in the request body
+const searchWeatherCells = async (ctx: Context) => {
+  const searchParams = parseOrThrow(
+    weatherCellsPolygonSearchParams,
+    Object.fromEntries(ctx.request.url.searchParams),
+  );
+  const polygons = parseOrThrow(polygonQuerySchema, await readJson(ctx));
+  if (searchParams.since_version !== undefined) {
+    return ctx.response.with(
+      snapshotDelta(searchParams.since_version, cellAreaFilter({ polygons })),
+    );
+  }
+  return ctx.response.with(cellsResponse(
+    simulation.getSnapshotInPolygons(polygons),
+    rollUpResolution(searchParams.resolution),
+    wantsGeoJson(ctx, searchParams.format),
+  ));
+};
+
+api.get("/weather/cells", getWeatherCells);
+mock.get("/weather/cells", getWeatherCells);
+api.post("/weather/cells", searchWeatherCells);
+mock.post("/weather/cells", searchWeatherCells);
+
+api.get("/weather/history/:date", (ctx) => {
+  const { date, bbox, h3_indexes } = parseOrThrow(
+    v.object({
+      ...weatherHistoryParams.entries,
+      ...weatherHistorySearchParams.entries,
+    }),
+    { ...Object.fromEntries(ctx.request.url.searchParams), ...ctx.params },
+  );
+  const cells = simulation.getSnapshotHistory(date, {
+    bbox,
+    h3Indexes: h3_indexes,
+  });
+  if (!cells) {
+    const range = simulation.getSnapshotHistoryRange();
+    throw new NotFoundError(
+      range
+        ? `no weather history for ${date}, retained range is ${range.from} to ${range.to}`
+        : `no weather history for ${date}`,
+    );
+  }
+
+  return ctx.response.with(Response.json(Object.values(cells)));
+});
+
+// Accepts a single event or a batch (JSON array, or NDJSON with
+// content-type application/x-ndjson). Events are accumulated and only show up
+// in the snapshot after the next swap.
+mock.post("/weather/events", async (ctx) => {
+  const text = await ctx.request.body.text();
+  const isNdjson = /ndjson/.test(ctx.request.headers.get("content-type") ?? "");
+
+  let items: Array<{ value?: unknown; parseError?: string }>;
+  if (isNdjson) {
+    items = text.split("\n").filter((line) => line.trim().length > 0).map(
+      (line) => {
+        try {
+          return { value: JSON.parse(line) };
+        } catch {
+          return { parseError: "line is not valid JSON" };
+        }
+      },
+    );
+  } else {
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new ValidationError("request body is not valid JSON");
+    }
+    items = (Array.isArray(body) ? body : [body]).map((value) => ({ value }));
+  }
+  if (items.length === 0) {
+    throw new ValidationError("no events in request body");
+  }
+
+  const results = items.map(({ value, parseError }, index) => {
+    const rejected = (issues: Array<ProblemIssue>) => ({
+      index,
+      status: "rejected" as const,
+      issues,
+    });
+    if (parseError) return rejected([{ field: null, message: parseError }]);
+
+    const result = v.safeParse(rawWeatherEventSchema, value);
+    if (!result.success) return rejected(toProblemIssues(result.issues));
+
+    const { h3_index, lat, lng, ...event } = result.output;
+    const h3Index = h3_index ??
+      (lat !== undefined && lng !== undefined
+        ? simulation.cellIndexFor(lat, lng)
+        : undefined);
+    if (h3Index === undefined) {
+      return rejected([{
+        field: null,
+        message: "event must include either h3_index or both lat and lng",
+      }]);
+    }
+    if (h3.getResolution(h3Index) !== simulation.resolution) {
+      return rejected([{
+        field: "h3_index",
+        message: `h3_index must be at resolution ${simulation.resolution}`,
+      }]);
+    }
+    simulation.pushRawEvent(h3Index, event);
+    return { index, status: "accepted" as const, h3_index: h3Index };
+  });
+
+  const accepted = results.filter((r) => r.status === "accepted").length;
+  if (accepted === 0) {
+    throw new ValidationError(
+      "no events were accepted",
+      results.flatMap((r) =>
+        r.status === "rejected"
+          ? r.issues.map((issue) => ({
+            field: issue.field === null
+              ? `${r.index}`
+              : `${r.index}.${issue.field}`,
+            message: issue.message,
+          }))
+          : []
+      ),
+    );
+  }
+
+  return ctx.response.with(
+    Response.json({
+      accepted,
+      rejected: results.length - accepted,
+      results,
+    }, { status: 202 }),
+  );
+});
+
+mock.get("/scenarios", async (ctx) => {
+  return ctx.response.with(Response.json(await listScenarioFiles()));
+});
+
+mock.get("/scenario", (ctx) => {
+  const state = simulation.getScenarioState();
+  if (!state) throw new NotFoundError("no scenario is running");
+  return ctx.response.with(Response.json(state));
+});
+
+// start an ad-hoc scenario sent in the body
+mock.post("/scenario", async (ctx) => {
+  const body = await readJson(ctx);
+  simulation.loadScenario(parseOrThrow(scenarioSchema, body));
+  return ctx.response.with(
+    Response.json(simulation.getScenarioState(), { status: 201 }),
+  );
+});
+
+// start one of the named scenarios from the scenarios directory
+mock.post("/scenarios/:name/start", async (ctx) => {
+  const { name } = parseOrThrow(scenarioNameParams, ctx.params);
+  let scenario;
+  try {
+    scenario = await loadScenarioFile(name);
   } catch (error) {
-    return ctx.response.with(Response.json(error));
+    if (error instanceof Deno.errors.NotFound) {
+      throw new NotFoundError(`no scenario named ${name}`);
+    }
+    // the file is there but unusable
+    if (error instanceof SyntaxError) {
+      throw new ApiError(422, `scenario ${name} is not valid JSON`);
+    }
+    if (error instanceof v.ValiError) {
+      throw new ApiError(
+        422,
+        `scenario ${name} is not a valid scenario`,
+        toProblemIssues(error.issues),
+      );
+    }
+    throw error;
   }
+  simulation.loadScenario(scenario);
+  return ctx.response.with(
+    Response.json(simulation.getScenarioState(), { status: 201 }),
+  );
 });
 
-router.get("/(.*)", (ctx) => {
+mock.delete("/scenario", (ctx) => {
+  simulation.clearScenario();
+  return ctx.response.with(new Response(null, { status: 204 }));
+});
+
+// simulated time: everything the simulation timestamps follows this clock
+mock.get("/admin/clock", (ctx) => {
+  return ctx.response.with(Response.json(simulation.getClockState()));
+});
+
+mock.post("/admin/clock/pause", (ctx) => {
+  simulation.clock.pause();
+  return ctx.response.with(Response.json(simulation.getClockState()));
+});
+
+mock.post("/admin/clock/resume", (ctx) => {
+  simulation.clock.resume();
+  return ctx.response.with(Response.json(simulation.getClockState()));
+});
+
+mock.put("/admin/clock/speed", async (ctx) => {
+  const { speed } = parseOrThrow(clockSpeedSchema, await readJson(ctx));
+  simulation.clock.setSpeed(speed);
+  return ctx.response.with(Response.json(simulation.getClockState()));
+});
+
+// jumping skips the events of the skipped time; a due snapshot swap happens on the next tick
+mock.post("/admin/clock/jump", async (ctx) => {
+  const { to } = parseOrThrow(clockJumpSchema, await readJson(ctx));
+  simulation.clock.jumpTo(to);
+  return ctx.response.with(Response.json(simulation.getClockState()));
+});
+
+// publish a snapshot from the events accumulated so far
+mock.post("/admin/snapshot", (ctx) => {
+  return ctx.response.with(Response.json(simulation.publishSnapshot()));
+});
+
+mock.get("/admin/checkpoints", async (ctx) => {
+  return ctx.response.with(Response.json(await listCheckpoints()));
+});
+
+// save the full simulation state under a name, replacing an older checkpoint
+mock.put("/admin/checkpoints/:name", async (ctx) => {
+  const { name } = parseOrThrow(checkpointNameParams, ctx.params);
+  const state = simulation.saveState();
+  await saveCheckpoint(name, state);
+  return ctx.response.with(
+    Response.json({
+      name,
+      saved_at: new Date(state.saved_at).toISOString(),
+      cells: state.snapshot.length,
+      hotspots: state.hotspots.length,
+    }, { status: 201 }),
+  );
+});
+
+mock.post("/admin/checkpoints/:name/restore", async (ctx) => {
+  const { name } = parseOrThrow(checkpointNameParams, ctx.params);
+  let state;
   try {
-    return ctx.response.with(Response.json({
-      online: true,
-      routes: [...router].map((route) => route.path),
-    }));
+    state = await loadCheckpoint(name);
   } catch (error) {
-    return ctx.response.with(Response.json(error));
+    if (error instanceof Deno.errors.NotFound) {
+      throw new NotFoundError(`no checkpoint named ${name}`);
+    }
+    throw error;
   }
+  simulation.restoreState(state);
+  return ctx.response.with(Response.json(simulation.getClockState()));
 });
 
-app.use(router.routes());
-app.use(router.allowedMethods());
+index.get("/", (ctx) => {
+  return ctx.response.with(Response.json({
+    online: true,
+    routes: [...api, ...mock].map((route) => route.path),
+  }));
+});
+
+app.use(errorHandler);
+// anything no router handled (and allowedMethods didn't answer) is a real 404
+app.use(async (ctx, next) => {
+  await next();
+  // respond is false once a route took the connection over (SSE, WebSocket)
+  if (
+    ctx.respond !== false && ctx.response.writable &&
+    ctx.response.status === 404
+  ) {
+    throw new NotFoundError(
+      `no route for ${ctx.request.method} ${ctx.request.url.pathname}`,
+    );
+  }
+});
+for (const router of [index, api, mock]) {
+  app.use(router.routes());
+  app.use(router.allowedMethods());
+}
 
 const handleGracefulExit = () => {
   console.log("handle graceful exit");
@@ -119,4 +916,4 @@ app.addEventListener("listen", (ctx) => {
   // console.log({ ...ctx });
 });
 
-await app.listen({ port: 3000 });
+await app.listen({ port: config.port });
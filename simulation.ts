@@ -1,58 +1,181 @@
 import * as h3 from "h3-js";
+import { SimulationClock } from "./clock.ts";
 import { cities, highways } from "./data.ts";
+import { ApiError } from "./errors.ts";
+import {
+  footprintBbox,
+  influenceAt,
+  systemStateAt,
+  type WeatherInfluence,
+} from "./scenario.ts";
+import { fractalNoise3 } from "./noise.ts";
+import { RISK_TYPES, riskType, type RiskTypeCode } from "./risks.ts";
+import { rollUpCells } from "./rollup.ts";
+import {
+  bearingDeg,
+  clipSegment,
+  GridIndex,
+  haversineKm,
+  headingDifference,
+  projectOntoSegment,
+} from "./spatial.ts";
+import {
+  azimuthStats,
+  azimuthVector,
+  CIVIL_TWILIGHT_DEG,
+  sunPosition,
+} from "./sun.ts";
 import type {
   BoundingBox,
   Cell,
   CellStatistics,
+  ExportView,
   H3Index,
+  HotspotCondition,
+  HotspotWeather,
+  Polygons,
   RainIntensity,
+  RawAggregate,
   RiskHotspot,
   RoadCondition,
   SimulationOptions,
+  SimulationState,
+  SnapshotChanges,
+  SnapshotDelta,
+  SunPosition,
 } from "./types.ts";
+import type { Scenario } from "./validation.ts";
+
+// local weather from the smooth field, each channel roughly uniform in 0..1
+type WeatherField = {
+  temperature: number;
+  rain: number;
+  fog: number;
+  wind: number;
+};
+
+// range (min, max) of the weather and time of day impact of each risk type
+const RISK_TYPE_IMPACTS: Record<
+  RiskTypeCode,
+  { weather: [number, number]; time_of_day: [number, number] }
+> = {
+  BDV: { weather: [1, 2], time_of_day: [2, 4] },
+  VA: { weather: [2, 4], time_of_day: [3, 5] },
+  GW: { weather: [1, 2], time_of_day: [4, 5] },
+  HL: { weather: [1, 3], time_of_day: [3, 4] },
+  SR: { weather: [4, 5], time_of_day: [1, 4] },
+  FOG: { weather: [4, 5], time_of_day: [4, 5] },
+  HR: { weather: [4, 5], time_of_day: [1, 3] },
+  EB: { weather: [2, 3], time_of_day: [3, 4] },
+  CW: { weather: [3, 5], time_of_day: [1, 2] },
+  PH: { weather: [1, 2], time_of_day: [1, 2] },
+  BUM: { weather: [1, 1], time_of_day: [1, 2] },
+};
+
+// Typical share of a risk type's incidents under each hotspot condition: most
+// of them for the conditions the type correlates with, background rates for the rest.
+function incidentShares(code: RiskTypeCode): Record<HotspotCondition, number> {
+  const { conditions } = riskType(code);
+  const shares = {
+    dry_road: 0.6,
+    wet_road: 0.2,
+    rain: 0.1,
+    slippery_road: 0.05,
+    fog: 0.03,
+    crosswind: 0.05,
+  };
+  for (const condition of conditions) shares[condition] = 0.7;
+  if (
+    conditions.some((c) => ["wet_road", "rain", "slippery_road"].includes(c))
+  ) {
+    shares.dry_road = 0.2;
+  }
+  return shares;
+}
 
 export class Simulation {
   readonly targetCellCount: number;
   readonly targetHotspotCount: number; // New property
   readonly snapshotIntervalMs: number;
   readonly resolution: number;
+  readonly hotspotHistoryDays: number;
+  readonly weatherHistoryDays: number;
+  // simulated time source for every timestamp the simulation produces
+  readonly clock: SimulationClock;
+  // names this run in snapshot versions, so versions of an earlier run (say
+  // before a restart with another seed) are never mistaken for this one's
+  readonly epoch = crypto.randomUUID().slice(0, 8);
 
   #seed: number;
   #rngState: number;
 
   // accumulate raw events during the 15-min window
-  #rawAgg = new Map<string, {
-    sumTemp: number;
-    count: number;
-    lastTs: number;
-    sumConfidence: number;
-    sumCounts: number;
-    fogVotes: number;
-    crossWindVotes: number;
-    rainScore: number;
-    roadScore: number;
-  }>();
+  #rawAgg = new Map<string, RawAggregate>();
 
   // current 15-min snapshot (replaced atomically at interval)
   #snapshot = new Map<string, Cell>();
+  #snapshotGeneration = 0;
+  #snapshotKeys?: Array<H3Index>; // key order of #snapshot, built on demand
+  // #snapshot rolled up to coarser resolutions, built on demand per generation
+  #rollups = new Map<number, Map<H3Index, Cell>>();
+  #rollupsGeneration = 0;
+  // mean scenario temperature offset baked into each snapshot cell
+  #snapshotTempOffsets = new Map<H3Index, number>();
+
+  // active weather scenario, timed from when it was loaded
+  #scenario?: { scenario: Scenario; startedAt: number };
 
   // New storage for generated risk hotspots
   #hotspots = new Map<string, RiskHotspot>();
+  #hotspotsGeneration = 0;
+  #hotspotsAdvancedAt = 0; // simulated time of the last lifecycle step
 
-  // optional long-term statistics store (created on demand)
-  #stats = new Map<string, CellStatistics>();
+  // spatial indexes over cell centroids (mirrors #snapshot) and hotspot locations
+  #cellIndex = new GridIndex<H3Index>();
+  #hotspotIndex = new GridIndex<string>();
 
-  // timers
-  #rawTimerId?: number;
-  #snapshotTimerId?: number;
+  // archived weather snapshots, the last one published on each UTC calendar day
+  #snapshotHistory = new Map<string, Map<string, Cell>>();
 
-  static #BOUNDS = {
-    minLat: 48.55,
-    maxLat: 51.06,
-    minLng: 12.09,
-    maxLng: 18.87,
-  };
+  // archived hotspot states, one per UTC calendar day (YYYY-MM-DD)
+  #hotspotHistory = new Map<string, Map<string, RiskHotspot>>();
+
+  // long-term statistics gathered from the snapshots published since #statsSince
+  #stats = new Map<string, CellStatistics>();
+  #statsSince = 0;
+  // condition tallies (see #tallyConditions) of each cell on `day` so far
+  #statsToday = { day: "", tallies: new Map<H3Index, Array<number>>() };
+  // statistics for the year before #statsSince, reconstructed per cell on
+  // demand; the most recently used #STATS_BACKFILL_CACHE cells are kept
+  #statsBackfill = new Map<H3Index, CellStatistics>();
+
+  // timers (a single real-time tick, snapshot swaps are scheduled in simulated time)
+  #tickTimerId?: number;
+  #lastTickAt = 0; // simulated time of the previous tick
+  #lastTickJumps = 0; // clock jumps seen by the previous tick
+  #eventBudget = 0; // fractional events carried over between ticks
+  #nextSnapshotAt = 0; // simulated time the next snapshot swap is due
+
+  static #TICK_MS = 200;
+  // most event batches one tick produces, so high speeds can't stall the loop
+  // (documented in endpoints.md)
+  static #MAX_TICK_BATCHES = 50;
+  static #CHANGE_LOG_LENGTH = 96; // a day of swaps at the default interval
+  static #STATS_BACKFILL_DAYS = 365;
+  static #STATS_BACKFILL_CACHE = 10_000;
+  #eventBatchSize: number;
+  #sampling: NonNullable<SimulationOptions["sampling"]>;
+  #bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number };
   #cellLocations: Array<{ lat: number; lng: number; h3: H3Index }> = [];
+  #changeListeners = new Set<(changes: SnapshotChanges) => void>();
+  // cells the most recent swaps touched, oldest first, for delta queries;
+  // only the keys, deltas take the cells themselves from #snapshot
+  #changeLog: Array<{
+    version: number;
+    added: Set<H3Index>;
+    changed: Set<H3Index>;
+    removed: Set<H3Index>;
+  }> = [];
 
   constructor(opts?: SimulationOptions) {
     const {
@@ -61,11 +184,23 @@ export class Simulation {
       snapshotIntervalMs = 15 * 60 * 1000,
       seed = Math.floor(Math.random() * 2 ** 31),
       resolution = 9,
+      hotspotHistoryDays = 30,
+      weatherHistoryDays = 7,
+      clock = new SimulationClock(),
+      eventBatchSize = Math.max(1, Math.floor(Math.sqrt(targetCellCount) / 50)),
+      sampling = { city: 0.50, outskirts: 0.75, highway: 0.80, roads: 0.92 },
+      bounds: [minLng, minLat, maxLng, maxLat] = [12.09, 48.55, 18.87, 51.06],
     } = opts ?? {};
     this.targetCellCount = targetCellCount;
     this.targetHotspotCount = targetHotspotCount;
     this.snapshotIntervalMs = snapshotIntervalMs;
     this.resolution = resolution;
+    this.hotspotHistoryDays = hotspotHistoryDays;
+    this.weatherHistoryDays = weatherHistoryDays;
+    this.clock = clock;
+    this.#eventBatchSize = eventBatchSize;
+    this.#sampling = sampling;
+    this.#bounds = { minLat, maxLat, minLng, maxLng };
     this.#seed = seed >>> 0;
     this.#rngState = this.#seed;
   }
@@ -139,11 +274,13 @@ export class Simulation {
       return { lat: last[0], lng: last[1], heading };
     }
 
-    // Sampling probabilities (tunable)
-    const P_CITY = 0.50; // chance to place near a city
-    const P_OUTSKIRTS = 0.75; // chance to place near a city
-    const P_HIGHWAY = 0.80; // chance to place along a highway
-    const P_ROADS = 0.92; // chance to place along a highway
+    // Sampling probabilities (cumulative, see SimulationOptions.sampling)
+    const {
+      city: P_CITY,
+      outskirts: P_OUTSKIRTS,
+      highway: P_HIGHWAY,
+      roads: P_ROADS,
+    } = this.#sampling;
     // remaining probability places uniform background noise
 
     this.#cellLocations = new Array(count).fill(null).map((_, i) => {
@@ -182,7 +319,7 @@ export class Simulation {
       return { lat, lng, h3: h3Index };
     });
 
-    const now = Date.now();
+    const now = this.clock.now();
     for (let i = 0; i < this.#cellLocations.length; i++) {
       const loc = this.#cellLocations[i];
       const env = this.#generateEnvironmentForLocation(
@@ -205,6 +342,10 @@ export class Simulation {
       };
       // initial snapshot baseline
       this.#snapshot.set(loc.h3, cell);
+      if (!this.#cellIndex.has(loc.h3)) {
+        const [lat, lng] = h3.cellToLatLng(loc.h3);
+        this.#cellIndex.insert(loc.h3, lat, lng);
+      }
 
       // seed rawAgg as if one event arrived at time now (but subsequent live events will only affect rawAgg)
       this.#rawAgg.set(loc.h3, {
@@ -217,176 +358,299 @@ export class Simulation {
         crossWindVotes: env.conditions.cross_wind ? 1 : 0,
         rainScore: this.#rainIntensityToScore(env.conditions.rain_intensity),
         roadScore: this.#roadConditionToScore(env.conditions.road_condition),
+        sumTempOffset: 0,
       });
     }
+
+    this.#snapshotGeneration++;
+    this.#snapshotKeys = undefined;
+    this.#changeLog = [];
+    this.#archiveSnapshot(now);
+
+    this.#stats.clear();
+    this.#statsSince = now;
+    this.#statsToday = { day: "", tallies: new Map() };
+    this.#statsBackfill.clear();
+    this.#recordStatistics(now);
   }
 
   /** Generate initial set of road risk hotspots. */
   async generateInitialHotspots(forceCount?: number) {
     const count = forceCount ?? this.targetHotspotCount;
-    this.#hotspots.clear();
+    // a new map: the previous one may be archived in the hotspot history
+    const hotspots = new Map<string, RiskHotspot>();
+    this.#hotspots = hotspots;
+    this.#hotspotsGeneration++;
+    this.#hotspotIndex.clear();
 
-    function sampleAlongPolyline(
-      poly: Array<[number, number]>,
-      r: () => number,
-    ) {
-      const segLengths: number[] = [];
-      let total = 0;
-      for (let i = 0; i < poly.length - 1; i++) {
-        const a = poly[i], b = poly[i + 1];
-        const dx = b[0] - a[0], dy = b[1] - a[1];
-        const L = Math.sqrt(dx * dx + dy * dy);
-        segLengths.push(L);
-        total += L;
-      }
-      let t = r() * total;
-      for (let i = 0; i < segLengths.length; i++) {
-        if (t <= segLengths[i]) {
-          const a = poly[i], b = poly[i + 1];
-          const frac = t / segLengths[i];
-          const lat = a[0] + (b[0] - a[0]) * frac;
-          const lng = a[1] + (b[1] - a[1]) * frac;
-          const heading =
-            (Math.atan2(b[1] - a[1], b[0] - a[0]) * 180 / Math.PI + 360) % 360;
-          return { lat, lng, heading };
-        }
-        t -= segLengths[i];
-      }
-      const last = poly[poly.length - 1];
-      const prev = poly[poly.length - 2];
-      const heading =
-        (Math.atan2(last[1] - prev[1], last[0] - prev[0]) * 180 / Math.PI +
-          360) % 360;
-      return { lat: last[0], lng: last[1], heading };
+    const now = this.clock.now();
+    for (let i = 0; i < count; i++) {
+      const r = this.#seededRand(i ^ this.#seed ^ 0xABCDEF);
+      const { id, hotspot } = this.#generateHotspot(r, now, {
+        taken: hotspots,
+      });
+      hotspots.set(id, hotspot);
+      this.#hotspotIndex.insert(
+        id,
+        hotspot.location.latitude,
+        hotspot.location.longitude,
+      );
     }
 
-    const RISK_TYPES = ['BDV', 'VA', 'GW', 'HL', 'SR', 'FOG', 'HR', 'EB', 'CW', 'PH', 'BUM'];
+    this.#hotspotsAdvancedAt = now;
+    this.#backfillHotspotHistory(now);
+  }
 
-    for (let i = 0; i < count; i++) {
-      const r = this.#seededRand(i ^ this.#seed ^ 0xABCDEF);
+  /** Begin producing raw events (accumulation only) and swap the snapshot every `snapshotIntervalMs` of simulated time. */
+  start() {
+    if (this.#tickTimerId) return;
+    const now = this.clock.now();
+    this.#lastTickAt = now;
+    this.#lastTickJumps = this.clock.jumps;
+    this.#nextSnapshotAt = now + this.snapshotIntervalMs;
+    this.#tickTimerId = setInterval(
+      () => this.#tick(),
+      Simulation.#TICK_MS,
+    ) as unknown as number;
+  }
 
-      // Place hotspots primarily along highways
-      const hIdx = Math.floor(r() * highways.length);
-      const poly = highways[hIdx];
-      const base = sampleAlongPolyline(poly, r);
+  stop() {
+    if (this.#tickTimerId) {
+      clearInterval(this.#tickTimerId);
+      this.#tickTimerId = undefined;
+    }
+  }
 
-      const lat = base.lat + (r() - 0.5) * 0.001;
-      const lng = base.lng + (r() - 0.5) * 0.001;
+  /** Swap in a snapshot built from the events accumulated so far instead of waiting for the interval. */
+  publishSnapshot() {
+    this.#applyRawAggToSnapshotBatch();
+    this.#nextSnapshotAt = this.clock.now() + this.snapshotIntervalMs;
+    return {
+      version: this.snapshotVersion,
+      published_at: new Date(this.clock.now()).toISOString(),
+      cells: this.#snapshot.size,
+    };
+  }
+
+  /**
+   * Call `listener` with what changed after every snapshot swap. Returns a
+   * function that removes the listener again.
+   */
+  onSnapshotChanges(listener: (changes: SnapshotChanges) => void) {
+    this.#changeListeners.add(listener);
+    return () => {
+      this.#changeListeners.delete(listener);
+    };
+  }
 
-      const total_count = 5 + Math.floor(r() ** 3 * 500);
-      const now = Date.now();
-      const lastTs = now - Math.floor(r() * 30 * 24 * 3600 * 1000); // within last 30 days
-      const firstTs = lastTs - Math.floor((30 + r() * 300) * 24 * 3600 * 1000); // up to a year ago
+  /** Simulated time, clock settings and when the next snapshot swap is due. */
+  getClockState() {
+    return {
+      now: new Date(this.clock.now()).toISOString(),
+      speed: this.clock.speed,
+      paused: this.clock.paused,
+      next_snapshot_at: this.#tickTimerId
+        ? new Date(this.#nextSnapshotAt).toISOString()
+        : null,
+    };
+  }
 
-      const weather_impact = 1 + Math.floor(r() * 5);
-      const time_of_day_impact = 1 + Math.floor(r() * 5);
+  /** Copy of the full simulation state, for writing to a checkpoint. */
+  saveState(): SimulationState {
+    const entries = <V>(map: Map<string, V>) => [...map.entries()];
+    return structuredClone({
+      version: 1,
+      saved_at: this.clock.now(),
+      seed: this.#seed,
+      rng_state: this.#rngState,
+      resolution: this.resolution,
+      cell_locations: this.#cellLocations,
+      snapshot: entries(this.#snapshot),
+      snapshot_temp_offsets: entries(this.#snapshotTempOffsets),
+      raw_agg: entries(this.#rawAgg),
+      hotspots: entries(this.#hotspots),
+      stats: entries(this.#stats),
+      stats_since: this.#statsSince,
+      stats_today: {
+        day: this.#statsToday.day,
+        tallies: entries(this.#statsToday.tallies),
+      },
+      snapshot_history: [...this.#snapshotHistory].map((
+        [day, cells],
+      ) => [day, entries(cells)]),
+      hotspot_history: [...this.#hotspotHistory].map((
+        [day, hotspots],
+      ) => [day, entries(hotspots)]),
+      scenario: this.#scenario && {
+        scenario: this.#scenario.scenario,
+        started_at: this.#scenario.startedAt,
+      },
+    });
+  }
 
-      // Generate environmental conditions based on weather impact
-      const dry_road_count = Math.floor(
-        total_count * (weather_impact <= 2 ? 0.8 : 0.3) * r(),
-      );
-      const wet_road_count = Math.floor(
-        total_count * (weather_impact >= 3 ? 0.7 : 0.2) * r(),
-      );
-      const rain_count = Math.floor(
-        wet_road_count * (weather_impact >= 3 ? 0.8 : 0.3) * r(),
-      );
-      const slippery_road_count = Math.floor(
-        total_count * (weather_impact >= 4 ? 0.5 : 0.1) * r(),
+  /**
+   * Replace everything generated or accumulated so far with a saved state and
+   * move the clock to the time it was saved. Takes ownership of `state`; open
+   * export cursors are invalidated. A state this simulation can't take is a
+   * 409 ApiError.
+   */
+  restoreState(state: SimulationState) {
+    if (state.version !== 1) {
+      throw new ApiError(
+        409,
+        `unsupported simulation state version ${state.version}`,
       );
-      const fog_count = Math.floor(
-        total_count * (weather_impact >= 4 ? 0.3 : 0.05) * r(),
+    }
+    if (state.resolution !== this.resolution) {
+      throw new ApiError(
+        409,
+        `state was saved at H3 resolution ${state.resolution}, the simulation runs at ${this.resolution}`,
       );
-      const crosswind_count = Math.floor(total_count * 0.1 * r());
+    }
 
-      const hotspot: RiskHotspot = {
-        location: {
-          latitude: parseFloat(lat.toFixed(6)),
-          longitude: parseFloat(lng.toFixed(6)),
-          std_dev: 5 + r() * 25,
-        },
-        metadata: {
-					id: crypto.randomUUID(),
-          risk: {
-            type: RISK_TYPES[Math.floor(r() * RISK_TYPES.length)],
-            importance: 1 + Math.floor(r() * 5),
-            confidence: 50 + Math.floor(r() * 50),
-            residual_confidence: 10 + Math.floor(r() * 80),
-          },
-          total_count,
-          weather_impact,
-          time_of_day_impact,
-        },
-        timeframe: {
-          first: new Date(firstTs).toISOString(),
-          last: new Date(lastTs).toISOString(),
-        },
-        vehicle: {
-          heading: {
-            avg: Math.round(base.heading + (r() - 0.5) * 10),
-            std_dev: 2 + r() * 15,
-          },
-        },
-        environment: {
-          air_temperature: { avg: -5 + r() * 25, std_dev: 1 + r() * 5 },
-          sun_position: { avg: r() * 360, std_dev: 10 + r() * 40 },
-          conditions: {
-            dry_road: { is_present: dry_road_count > 0, count: dry_road_count },
-            wet_road: { is_present: wet_road_count > 0, count: wet_road_count },
-            rain: { is_present: rain_count > 0, count: rain_count },
-            slippery_road: {
-              is_present: slippery_road_count > 0,
-              count: slippery_road_count,
-            },
-            fog: { is_present: fog_count > 0, count: fog_count },
-            crosswind: {
-              is_present: crosswind_count > 0,
-              count: crosswind_count,
-            },
-          },
-        },
-        statistics: this.#generateHotspotStatistics(
-          r,
-          total_count,
-          time_of_day_impact,
-        ),
-      };
+    this.#seed = state.seed >>> 0;
+    this.#rngState = state.rng_state >>> 0;
+    this.#cellLocations = state.cell_locations;
+    this.#rawAgg = new Map(state.raw_agg);
+    this.#stats = new Map(state.stats);
+    this.#statsSince = state.stats_since ?? state.saved_at;
+    this.#statsToday = {
+      day: state.stats_today?.day ?? "",
+      tallies: new Map(state.stats_today?.tallies),
+    };
+    this.#statsBackfill.clear();
+    this.#scenario = state.scenario && {
+      scenario: state.scenario.scenario,
+      startedAt: state.scenario.started_at,
+    };
 
-      const id = `${hotspot.location.latitude.toFixed(5)}_${
-        hotspot.location.longitude.toFixed(5)
-      }`;
-      this.#hotspots.set(id, hotspot);
+    this.#snapshot = new Map(state.snapshot);
+    this.#snapshotTempOffsets = new Map(state.snapshot_temp_offsets);
+    this.#snapshotGeneration++;
+    this.#snapshotKeys = undefined;
+    this.#changeLog = [];
+    this.#cellIndex.clear();
+    for (const [h3Index, cell] of this.#snapshot) {
+      const [lat, lng] = h3.cellToLatLng(h3Index);
+      this.#cellIndex.insert(h3Index, lat, lng);
+      // checkpoints saved before cells carried the sun
+      cell.environment.sun ??= this.#sunAt(lat, lng, state.saved_at);
     }
-  }
 
-  /** Begin producing raw events (accumulation only) and swap snapshot only on interval. */
-  start() {
-    if (this.#rawTimerId) return;
-    // produce random raw events in background (they only touch #rawAgg)
-    this.#rawTimerId = setInterval(() => {
-      const batchSize = Math.max(
-        1,
-        Math.floor(Math.sqrt(this.targetCellCount) / 50),
+    // keyed by id again: older checkpoints keyed hotspots by their rounded position
+    this.#hotspots = new Map(
+      state.hotspots.map(([, hotspot]) => [hotspot.metadata.id, hotspot]),
+    );
+    this.#hotspotsGeneration++;
+    this.#hotspotsAdvancedAt = state.saved_at;
+    this.#hotspotIndex.clear();
+    for (const [id, hotspot] of this.#hotspots) {
+      this.#hotspotIndex.insert(
+        id,
+        hotspot.location.latitude,
+        hotspot.location.longitude,
+      );
+    }
+
+    this.#snapshotHistory = new Map(
+      state.snapshot_history.map(([day, cells]) => [day, new Map(cells)]),
+    );
+    // archived cells of those checkpoints get the sun at their last update
+    for (const cells of this.#snapshotHistory.values()) {
+      for (const [h3Index, cell] of cells) {
+        if (cell.environment.sun) continue;
+        const [lat, lng] = h3.cellToLatLng(h3Index);
+        cell.environment.sun = this.#sunAt(
+          lat,
+          lng,
+          Date.parse(cell.timeframe.last),
+        );
+      }
+    }
+    this.#hotspotHistory = new Map(
+      state.hotspot_history.map((
+        [day, hotspots],
+      ) => [day, new Map(hotspots.map(([, h]) => [h.metadata.id, h]))]),
+    );
+    // checkpoints saved before hotspots carried the sun azimuth
+    for (
+      const hotspot of [
+        ...this.#hotspots.values(),
+        ...[...this.#hotspotHistory.values()].flatMap((hotspots) => [
+          ...hotspots.values(),
+        ]),
+      ]
+    ) {
+      hotspot.environment.sun_position.azimuth ??= this.#incidentAzimuth(
+        hotspot,
       );
-      for (let k = 0; k < batchSize; k++) this.#produceRandomRawEvent();
-    }, 200) as unknown as number;
+    }
 
-    // snapshot timer replaces the entire snapshot in one pass using current #rawAgg,
-    // then clears #rawAgg for the next interval.
-    this.#snapshotTimerId = setInterval(() => {
-      this.#applyRawAggToSnapshotBatch();
-    }, this.snapshotIntervalMs) as unknown as number;
+    this.clock.jumpTo(state.saved_at);
+    this.#lastTickAt = state.saved_at;
+    this.#lastTickJumps = this.clock.jumps;
+    this.#eventBudget = 0;
+    this.#nextSnapshotAt = state.saved_at + this.snapshotIntervalMs;
   }
 
-  stop() {
-    if (this.#rawTimerId) {
-      clearInterval(this.#rawTimerId);
-      this.#rawTimerId = undefined;
+  /** Increases with every snapshot swap (and on a reset or restore). */
+  get snapshotGeneration() {
+    return this.#snapshotGeneration;
+  }
+
+  /** `<epoch>.<generation>`: the current snapshot, told apart from other runs'. */
+  get snapshotVersion() {
+    return `${this.epoch}.${this.#snapshotGeneration}`;
+  }
+
+  /**
+   * Cells added, changed or removed between snapshot
+   * generation `sinceVersion` of this run and the current one, limited to
+   * cells `inArea` accepts. Undefined when the swaps since that generation are
+   * no longer retained.
+   */
+  getSnapshotDelta(
+    sinceVersion: number,
+    inArea: (h3Index: H3Index) => boolean = () => true,
+  ): SnapshotDelta | undefined {
+    const version = this.#snapshotGeneration;
+    const log = this.#changeLog;
+    const first = log.length > 0 ? log[0].version - 1 : version;
+    if (sinceVersion < first || sinceVersion > version) return undefined;
+
+    // whether each cell touched since then existed in snapshot sinceVersion,
+    // decided by the first change that touched it
+    const existed = new Map<H3Index, boolean>();
+    for (const changes of log) {
+      if (changes.version <= sinceVersion) continue;
+      for (const h3Index of changes.added) {
+        if (!existed.has(h3Index)) existed.set(h3Index, false);
+      }
+      for (const h3Index of changes.changed) {
+        if (!existed.has(h3Index)) existed.set(h3Index, true);
+      }
+      for (const h3Index of changes.removed) {
+        if (!existed.has(h3Index)) existed.set(h3Index, true);
+      }
     }
-    if (this.#snapshotTimerId) {
-      clearInterval(this.#snapshotTimerId);
-      this.#snapshotTimerId = undefined;
+
+    const delta: SnapshotDelta = {
+      version: this.snapshotVersion,
+      added: {},
+      changed: {},
+      removed: [],
+    };
+    for (const [h3Index, existedThen] of existed) {
+      if (!inArea(h3Index)) continue;
+      const cell = this.#snapshot.get(h3Index);
+      if (cell) {
+        const into = existedThen ? delta.changed : delta.added;
+        into[h3Index] = structuredClone(cell);
+      } else if (existedThen) {
+        delta.removed.push(h3Index);
+      }
     }
+    return delta;
   }
 
   /** Read-only copy of current weather snapshot (safe to return over network). */
@@ -403,19 +667,225 @@ export class Simulation {
     return out;
   }
 
+  /**
+   * Uncopied view of the current snapshot for paging/streaming exports. The
+   * view stays consistent across a swap because swapped-out snapshots are never mutated.
+   */
+  snapshotView(): ExportView<Cell> {
+    const snapshot = this.#snapshot;
+    this.#snapshotKeys ??= [...snapshot.keys()];
+    return {
+      scope: `cells-${this.resolution}`,
+      generation: this.#snapshotGeneration,
+      keys: this.#snapshotKeys,
+      get: (key) => snapshot.get(key),
+    };
+  }
+
+  /**
+   * The current snapshot aggregated into H3 parents at a resolution coarser
+   * than the simulation's (see rollUpCells); uncopied, like snapshotView().
+   */
+  snapshotViewAt(resolution: number): ExportView<Cell> {
+    const rollup = this.#rollup(resolution);
+    return {
+      scope: `cells-${resolution}`,
+      generation: this.#snapshotGeneration,
+      keys: [...rollup.keys()],
+      get: (key) => rollup.get(key),
+    };
+  }
+
+  /**
+   * Parents at `resolution` of the given snapshot cells, each aggregated from
+   * all of its children rather than only from the ones given.
+   */
+  rollUpToResolution(
+    cells: Record<H3Index, Cell>,
+    resolution: number,
+  ): Record<H3Index, Cell> {
+    const rollup = this.#rollup(resolution);
+    const out: Record<H3Index, Cell> = {};
+    for (const h3Index of Object.keys(cells)) {
+      const parent = h3.cellToParent(h3Index, resolution);
+      if (parent in out) continue;
+      const cell = rollup.get(parent);
+      if (cell) out[parent] = structuredClone(cell);
+    }
+    return out;
+  }
+
+  #rollup(resolution: number) {
+    if (resolution < 0 || resolution >= this.resolution) {
+      throw new RangeError(
+        `resolution must be between 0 and ${this.resolution - 1}`,
+      );
+    }
+    if (this.#rollupsGeneration !== this.#snapshotGeneration) {
+      this.#rollups.clear();
+      this.#rollupsGeneration = this.#snapshotGeneration;
+    }
+    let rollup = this.#rollups.get(resolution);
+    if (!rollup) {
+      rollup = rollUpCells(this.#snapshot.values(), resolution);
+      this.#rollups.set(resolution, rollup);
+    }
+    return rollup;
+  }
+
+  /**
+   * Uncopied view of the current hotspots for paging/streaming exports. The
+   * view stays consistent because lifecycle steps replace hotspots rather than mutate them.
+   */
+  hotspotsView(): ExportView<RiskHotspot> {
+    const hotspots = this.#hotspots;
+    return {
+      scope: "hotspots",
+      generation: this.#hotspotsGeneration,
+      keys: [...hotspots.keys()],
+      get: (key) => hotspots.get(key),
+    };
+  }
+
+  /**
+   * Archived weather snapshot for a UTC calendar day (YYYY-MM-DD), if retained.
+   * When both filters are given, only cells matching both are returned.
+   */
+  getSnapshotHistory(
+    date: string,
+    filter?: { bbox?: BoundingBox; h3Indexes?: Array<H3Index> },
+  ): Record<string, Cell> | undefined {
+    const snapshot = this.#snapshotHistory.get(date);
+    if (!snapshot) return undefined;
+
+    const keys = filter?.h3Indexes ?? snapshot.keys();
+    const out: Record<string, Cell> = {};
+    for (const h3Index of keys) {
+      const cell = snapshot.get(h3Index);
+      if (!cell) continue;
+      if (filter?.bbox && !this.#isCellInBbox(h3Index, filter.bbox)) continue;
+      out[h3Index] = structuredClone(cell);
+    }
+    return out;
+  }
+
+  /** Oldest and newest day currently held in the weather snapshot archive. */
+  getSnapshotHistoryRange(): { from: string; to: string } | undefined {
+    return this.#historyRange(this.#snapshotHistory);
+  }
+
+  /** Archived hotspot state for a UTC calendar day (YYYY-MM-DD), if retained. */
+  getHotspotHistory(date: string): Record<string, RiskHotspot> | undefined {
+    const day = this.#hotspotHistory.get(date);
+    if (!day) return undefined;
+    const out: Record<string, RiskHotspot> = {};
+    for (const [k, v] of day.entries()) out[k] = structuredClone(v);
+    return out;
+  }
+
+  /** Oldest and newest day currently held in the hotspot archive. */
+  getHotspotHistoryRange(): { from: string; to: string } | undefined {
+    return this.#historyRange(this.#hotspotHistory);
+  }
+
+  /**
+   * Snapshot cell; an index coarser than the simulation resolution gets the rolled-up parent.
+   * Statistics cover the snapshots published since the simulation started, on
+   * top of a year of history reconstructed from the weather field before that.
+   * The day in progress counts by the snapshots it has had so far.
+   */
   getCell(
     h3Index: H3Index,
     opts?: { includeStatistics?: boolean },
   ): (Cell & { statistics?: CellStatistics }) | undefined {
+    const resolution = h3.getResolution(h3Index);
+    if (resolution >= 0 && resolution < this.resolution) {
+      // coarser cells are rolled up; statistics are only kept per simulation cell
+      const parent = this.#rollup(resolution).get(h3Index);
+      return parent && structuredClone(parent);
+    }
     const cell = this.#snapshot.get(h3Index);
     if (!cell) return undefined;
     if (!opts?.includeStatistics) return { ...structuredClone(cell) };
-    let stats = this.#stats.get(h3Index);
-    if (!stats) {
-      stats = this.#generateInitialStatisticsForCell(cell);
-      this.#stats.set(h3Index, stats);
-    }
-    return { ...structuredClone(cell), statistics: structuredClone(stats) };
+    const statistics = this.#combineStatistics(
+      this.#backfilledStatistics(h3Index),
+      this.#stats.get(h3Index) ?? this.#generateInitialStatisticsPlaceholder(),
+    );
+    const today = this.#statsToday.tallies.get(h3Index);
+    if (today) this.#addDayCounts(statistics.day_counts, today);
+    return { ...structuredClone(cell), statistics };
+  }
+
+  /** Start a weather scenario; its systems are timed from now. Replaces any active scenario. */
+  loadScenario(scenario: Scenario) {
+    this.#scenario = {
+      scenario: structuredClone(scenario),
+      startedAt: this.clock.now(),
+    };
+  }
+
+  clearScenario() {
+    this.#scenario = undefined;
+  }
+
+  /** Active scenario with the current position and intensity of each system. */
+  getScenarioState() {
+    if (!this.#scenario) return undefined;
+    const { scenario, startedAt } = this.#scenario;
+    const elapsedMin = (this.clock.now() - startedAt) / 60_000;
+    return {
+      name: scenario.name,
+      description: scenario.description,
+      started_at: new Date(startedAt).toISOString(),
+      elapsed_min: Math.round(elapsedMin * 10) / 10,
+      systems: scenario.systems.map((system) => {
+        const state = systemStateAt(system, elapsedMin);
+        return {
+          name: system.name,
+          kind: system.kind,
+          active: state.active,
+          position: {
+            latitude: Math.round(state.lat * 1e6) / 1e6,
+            longitude: Math.round(state.lng * 1e6) / 1e6,
+          },
+          heading: Math.round(state.heading),
+          intensity: Math.round(state.intensity * 100) / 100,
+        };
+      }),
+    };
+  }
+
+  /** Hotspot with its statistics by `metadata.id`; undefined once it is retired or for unknown ids. */
+  getHotspot(id: string): RiskHotspot | undefined {
+    const hotspot = this.#hotspots.get(id);
+    return hotspot && structuredClone(hotspot);
+  }
+
+  /**
+   * Current weather of the cell a hotspot lies in, with the hotspot conditions
+   * it elevates. Undefined for unknown hotspots and cells without a snapshot entry.
+   */
+  getHotspotWeather(id: string): HotspotWeather | undefined {
+    const hotspot = this.#hotspots.get(id);
+    const cell = hotspot && this.#hotspotCell(hotspot);
+    if (!hotspot || !cell) return undefined;
+    return {
+      h3_index: cell.location.h3_index,
+      temperature: cell.environment.temperature,
+      is_night: cell.environment.is_night,
+      sun: this.#sunAt(
+        hotspot.location.latitude,
+        hotspot.location.longitude,
+        this.clock.now(),
+      ),
+      conditions: structuredClone(cell.environment.conditions),
+      elevated_by: this.#elevatingConditions(hotspot, cell),
+    };
+  }
+
+  /** H3 index of the simulation-resolution cell containing lat/lng. */
+  cellIndexFor(lat: number, lng: number): H3Index {
+    return this.#h3IndexFromLatLng(lat, lng, this.resolution);
   }
 
   /** External injection: adds raw event to the accumulator (does not touch snapshot). */
@@ -432,7 +902,26 @@ export class Simulation {
       timestamp?: number;
     },
   ) {
-    const ts = event.timestamp ?? Date.now();
+    this.#accumulateRawEvent(h3Index, event, 0);
+  }
+
+  addOrMergeStatistics(h3Index: H3Index, stats: Partial<CellStatistics>) {
+    const prev = this.#stats.get(h3Index) ??
+      this.#generateInitialStatisticsPlaceholder();
+    this.#stats.set(h3Index, this.#mergeStatistics(prev, stats));
+  }
+
+  /* ========== PRIVATE HELPERS ========== */
+
+  // `tempOffset` is the part of event.temperature contributed by a scenario;
+  // events stamped in the future count as observed now
+  #accumulateRawEvent(
+    h3Index: H3Index,
+    event: Parameters<Simulation["pushRawEvent"]>[1],
+    tempOffset: number,
+  ) {
+    const now = this.clock.now();
+    const ts = Math.min(event.timestamp ?? now, now);
     const bucket = this.#rawAgg.get(h3Index) ??
       {
         sumTemp: 0,
@@ -444,8 +933,10 @@ export class Simulation {
         crossWindVotes: 0,
         rainScore: 0,
         roadScore: 0,
+        sumTempOffset: 0,
       };
     bucket.sumTemp += event.temperature;
+    bucket.sumTempOffset += tempOffset;
     bucket.count += 1;
     bucket.lastTs = Math.max(bucket.lastTs, ts);
     bucket.sumConfidence += event.confidence ?? 80;
@@ -461,18 +952,11 @@ export class Simulation {
     this.#rawAgg.set(h3Index, bucket);
   }
 
-  addOrMergeStatistics(h3Index: H3Index, stats: Partial<CellStatistics>) {
-    const prev = this.#stats.get(h3Index) ??
-      this.#generateInitialStatisticsPlaceholder();
-    this.#stats.set(h3Index, this.#mergeStatistics(prev, stats));
-  }
-
-  /* ========== PRIVATE HELPERS ========== */
-
   // Apply the entire #rawAgg into a new snapshot in one pass, then clear #rawAgg.
   #applyRawAggToSnapshotBatch() {
     const newSnapshot = new Map<string, Cell>();
-    const now = Date.now();
+    const newTempOffsets = new Map<H3Index, number>();
+    const now = this.clock.now();
 
     for (const [h3index, agg] of this.#rawAgg.entries()) {
       const avgTemp = agg.sumTemp / Math.max(1, agg.count);
@@ -496,6 +980,8 @@ export class Simulation {
 
       const fog = agg.fogVotes / Math.max(1, agg.count) >= 0.5;
       const crossWind = agg.crossWindVotes / Math.max(1, agg.count) >= 0.2;
+      const [lat, lng] = h3.cellToLatLng(h3index);
+      const sun = this.#sunAt(lat, lng, now);
 
       // Build cell from aggregated raw events only (cells with no events won't be in newSnapshot)
       const cell: Cell = {
@@ -504,9 +990,8 @@ export class Simulation {
         metadata: { confidence, total_count },
         environment: {
           temperature: Math.round(avgTemp * 10) / 10,
-          // keep previous is_night if available, else approximate from current time
-          is_night: this.#snapshot.get(h3index)?.environment.is_night ??
-            ((new Date().getUTCHours() + 1) % 24 < 6),
+          is_night: sun.elevation < CIVIL_TWILIGHT_DEG,
+          sun,
           conditions: {
             rain_intensity: rainIntensity,
             road_condition: roadCondition,
@@ -517,13 +1002,445 @@ export class Simulation {
       };
 
       newSnapshot.set(h3index, cell);
+      if (agg.sumTempOffset !== 0) {
+        newTempOffsets.set(h3index, agg.sumTempOffset / Math.max(1, agg.count));
+      }
     }
 
+    // Keep the centroid index in step with the cells of the new snapshot
+    for (const h3index of this.#snapshot.keys()) {
+      if (!newSnapshot.has(h3index)) this.#cellIndex.remove(h3index);
+    }
+    for (const h3index of newSnapshot.keys()) {
+      if (!this.#cellIndex.has(h3index)) {
+        const [lat, lng] = h3.cellToLatLng(h3index);
+        this.#cellIndex.insert(h3index, lat, lng);
+      }
+    }
+
+    const previousSnapshot = this.#snapshot;
+    const previousHotspots = this.#hotspots;
+
     // Atomically replace snapshot
     this.#snapshot = newSnapshot;
+    this.#snapshotTempOffsets = newTempOffsets;
+    this.#snapshotGeneration++;
+    this.#snapshotKeys = undefined;
+    this.#archiveSnapshot(now);
+    this.#recordStatistics(now);
 
     // Clear accumulated events so next interval starts fresh
     this.#rawAgg.clear();
+
+    this.#advanceHotspots(now);
+    this.#archiveHotspots(now);
+
+    const changes = this.#diff(previousSnapshot, previousHotspots, now);
+    this.#changeLog.push({
+      version: this.#snapshotGeneration,
+      added: new Set(changes.cells.added.keys()),
+      changed: new Set(changes.cells.changed.keys()),
+      removed: new Set(changes.cells.removed.keys()),
+    });
+    if (this.#changeLog.length > Simulation.#CHANGE_LOG_LENGTH) {
+      this.#changeLog.shift();
+    }
+    for (const listener of this.#changeListeners) listener(changes);
+  }
+
+  // Cells and hotspots that differ between the previous and current state.
+  // Cells are compared field by field, as clients applying deltas see them.
+  // Lifecycle steps replace the hotspots they change, so identity is enough there.
+  #diff(
+    previousSnapshot: Map<H3Index, Cell>,
+    previousHotspots: Map<string, RiskHotspot>,
+    now: number,
+  ): SnapshotChanges {
+    const changes: SnapshotChanges = {
+      version: this.snapshotVersion,
+      published_at: new Date(now).toISOString(),
+      cells: { added: new Map(), changed: new Map(), removed: new Map() },
+      hotspots: { changed: new Map(), removed: new Map() },
+    };
+    for (const [h3Index, cell] of this.#snapshot) {
+      const previous = previousSnapshot.get(h3Index);
+      if (!previous) {
+        changes.cells.added.set(h3Index, cell);
+      } else if (
+        previous !== cell && JSON.stringify(previous) !== JSON.stringify(cell)
+      ) {
+        changes.cells.changed.set(h3Index, cell);
+      }
+    }
+    for (const [h3Index, cell] of previousSnapshot) {
+      if (!this.#snapshot.has(h3Index)) {
+        changes.cells.removed.set(h3Index, cell);
+      }
+    }
+    for (const [id, hotspot] of this.#hotspots) {
+      if (previousHotspots.get(id) !== hotspot) {
+        changes.hotspots.changed.set(id, hotspot);
+      }
+    }
+    for (const [id, hotspot] of previousHotspots) {
+      if (!this.#hotspots.has(id)) changes.hotspots.removed.set(id, hotspot);
+    }
+    return changes;
+  }
+
+  // Keep the current snapshot as the state of the day `ts` falls in. Snapshots
+  // are never mutated after a swap, so the map is archived without copying.
+  #archiveSnapshot(ts: number) {
+    this.#snapshotHistory.set(this.#dayKey(ts), this.#snapshot);
+    this.#pruneHistory(this.#snapshotHistory, this.weatherHistoryDays, ts);
+  }
+
+  // Hotspot lifecycle over the simulated time since the previous step: hotspots
+  // record incidents at their historical rate or lose confidence while quiet,
+  // ones that stay quiet too long are retired and new ones appear. Changed
+  // hotspots are copied into a new map, so open export views are unaffected.
+  #advanceHotspots(now: number) {
+    const elapsed = now - this.#hotspotsAdvancedAt;
+    this.#hotspotsAdvancedAt = now;
+    if (elapsed <= 0) return;
+    const dayMs = 24 * 3600 * 1000;
+    const next = new Map(this.#hotspots);
+    let changed = false;
+
+    for (const [id, hotspot] of this.#hotspots) {
+      const first = Date.parse(hotspot.timeframe.first);
+      const last = Date.parse(hotspot.timeframe.last);
+      // incidents per ms since the first one (at least a week, so a new
+      // hotspot's first incident doesn't imply a high rate)
+      let rate = hotspot.metadata.total_count /
+        Math.max(7 * dayMs, now - first);
+      const cell = this.#hotspotCell(hotspot);
+      // weather the hotspot is prone to makes incidents more frequent
+      if (cell && this.#elevatingConditions(hotspot, cell).length > 0) {
+        rate *= 3;
+      }
+      const incidents = this.#poisson(rate * elapsed);
+      // about one confidence point lost per quiet day
+      const decay = incidents > 0 ? 0 : this.#randomRound(elapsed / dayMs);
+      const confidence = hotspot.metadata.risk.confidence;
+
+      if (
+        incidents === 0 &&
+        (confidence - decay < 20 || now - last > 180 * dayMs)
+      ) {
+        next.delete(id);
+        this.#hotspotIndex.remove(id);
+        changed = true;
+        continue;
+      }
+      if (incidents === 0 && decay === 0) continue;
+
+      const updated = structuredClone(hotspot);
+      if (incidents > 0) {
+        this.#recordHotspotIncidents(updated, incidents, now, cell);
+        updated.metadata.risk.confidence = Math.min(
+          99,
+          confidence + 2 * incidents,
+        );
+      } else {
+        updated.metadata.risk.confidence = confidence - decay;
+      }
+      next.set(id, updated);
+      changed = true;
+    }
+
+    // arrivals balancing the target count over a typical ~90 day lifetime
+    const arrivals = this.#poisson(
+      this.targetHotspotCount * elapsed / (90 * dayMs),
+    );
+    for (let k = 0; k < arrivals; k++) {
+      const r = this.#seededRand(
+        Math.floor(this.#randUniform() * 2 ** 31) ^ this.#seed,
+      );
+      const { id, hotspot } = this.#generateHotspot(r, now, {
+        fresh: true,
+        taken: next,
+      });
+      this.#recordHotspotIncidents(
+        hotspot,
+        1,
+        now,
+        this.#hotspotCell(hotspot),
+      );
+      next.set(id, hotspot);
+      this.#hotspotIndex.insert(
+        id,
+        hotspot.location.latitude,
+        hotspot.location.longitude,
+      );
+      changed = true;
+    }
+
+    if (!changed) return;
+    this.#hotspots = next;
+    this.#hotspotsGeneration++;
+  }
+
+  // Add `count` incidents at `ts` to a hotspot's total, condition counts and
+  // time distributions. Incidents take the conditions and temperature of the
+  // hotspot's cell; without one they are drawn from the typical shares of its
+  // risk type, at three quarters like the mean count at generation. The sun elevation
+  // at the hotspot joins its running mean and spread.
+  #recordHotspotIncidents(
+    hotspot: RiskHotspot,
+    count: number,
+    ts: number,
+    cell?: Cell,
+  ) {
+    const { type } = hotspot.metadata.risk;
+    const { conditions, air_temperature, sun_position } = hotspot.environment;
+    const { by_week, by_day, by_time } = hotspot.statistics.distribution;
+    const t = new Date(ts);
+
+    for (let k = 0; k < count; k++) {
+      const observed = cell
+        ? this.#cellConditions(cell)
+        : this.#randomIncidentConditions(type);
+      for (const [key, present] of Object.entries(observed)) {
+        if (!present) continue;
+        const condition = conditions[key as HotspotCondition];
+        condition.count++;
+        condition.is_present = true;
+      }
+    }
+
+    const week = Math.min(52, 1 + Math.floor((this.#dayOfYear(t) - 1) / 7));
+    const day = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"][t.getUTCDay()];
+    const time = `${String(t.getUTCHours()).padStart(2, "0")}:${
+      t.getUTCMinutes() < 30 ? "00" : "30"
+    }`;
+    by_week[week] = (by_week[week] ?? 0) + count;
+    by_day[day] = (by_day[day] ?? 0) + count;
+    by_time[time] = (by_time[time] ?? 0) + count;
+
+    hotspot.metadata.total_count += count;
+    hotspot.timeframe.last = t.toISOString();
+    if (cell) {
+      air_temperature.avg += (cell.environment.temperature -
+        air_temperature.avg) * count / hotspot.metadata.total_count;
+    }
+    const { elevation, azimuth } = sunPosition(
+      hotspot.location.latitude,
+      hotspot.location.longitude,
+      ts,
+    );
+    const total = hotspot.metadata.total_count;
+    const delta = elevation - sun_position.avg;
+    sun_position.avg += delta * count / total;
+    sun_position.std_dev = Math.sqrt(
+      (sun_position.std_dev ** 2 * (total - count) +
+        delta * (elevation - sun_position.avg) * count) / total,
+    );
+    const [x, y] = azimuthVector(sun_position.azimuth);
+    sun_position.azimuth = azimuthStats(
+      (x * (total - count) + Math.sin(azimuth * Math.PI / 180) * count) / total,
+      (y * (total - count) + Math.cos(azimuth * Math.PI / 180) * count) / total,
+    );
+  }
+
+  // Sun azimuth statistics of a hotspot's incidents recovered from their times
+  // of day, all placed on the day of the last one.
+  #incidentAzimuth(hotspot: RiskHotspot) {
+    const { latitude, longitude } = hotspot.location;
+    const day = new Date(hotspot.timeframe.last);
+    let x = 0, y = 0, total = 0;
+    for (
+      const [time, count] of Object.entries(
+        hotspot.statistics.distribution.by_time,
+      )
+    ) {
+      if (count === 0) continue;
+      const [hour, minute] = time.split(":").map(Number);
+      const { azimuth } = sunPosition(
+        latitude,
+        longitude,
+        day.setUTCHours(hour, minute, 0, 0),
+      );
+      x += Math.sin(azimuth * Math.PI / 180) * count;
+      y += Math.cos(azimuth * Math.PI / 180) * count;
+      total += count;
+    }
+    return total > 0
+      ? azimuthStats(x / total, y / total)
+      : { avg: 0, std_dev: 0 };
+  }
+
+  #randomIncidentConditions(
+    type: RiskTypeCode,
+  ): Record<HotspotCondition, boolean> {
+    const shares = incidentShares(type);
+    const wetRoad = this.#randUniform() < shares.wet_road * 0.75;
+    return {
+      dry_road: this.#randUniform() < shares.dry_road * 0.75,
+      wet_road: wetRoad,
+      // rain falls on a wet road, so it is drawn among those
+      rain: wetRoad && this.#randUniform() < shares.rain / shares.wet_road,
+      slippery_road: this.#randUniform() < shares.slippery_road * 0.75,
+      fog: this.#randUniform() < shares.fog * 0.75,
+      crosswind: this.#randUniform() < shares.crosswind * 0.75,
+    };
+  }
+
+  // snapshot cell the hotspot lies in
+  #hotspotCell(hotspot: RiskHotspot) {
+    return this.#snapshot.get(
+      this.cellIndexFor(
+        hotspot.location.latitude,
+        hotspot.location.longitude,
+      ),
+    );
+  }
+
+  // Hotspot conditions a cell's weather amounts to
+  #cellConditions(cell: Cell): Record<HotspotCondition, boolean> {
+    const { rain_intensity, road_condition, fog, cross_wind } =
+      cell.environment.conditions;
+    return {
+      dry_road: road_condition === "DRY",
+      wet_road: road_condition === "WET" || road_condition === "SLIPPERY_WET",
+      rain: rain_intensity === "LOW" || rain_intensity === "MEDIUM" ||
+        rain_intensity === "HIGH",
+      slippery_road: road_condition === "SLIPPERY" ||
+        road_condition === "SLIPPERY_ICE" || road_condition === "SLIPPERY_WET",
+      fog,
+      crosswind: cross_wind,
+    };
+  }
+
+  // Adverse conditions present in the cell now that also make up a notable
+  // share (15 %) of the hotspot's incidents
+  #elevatingConditions(hotspot: RiskHotspot, cell: Cell) {
+    const present = this.#cellConditions(cell);
+    const { conditions } = hotspot.environment;
+    const total = Math.max(1, hotspot.metadata.total_count);
+    return (Object.keys(present) as Array<HotspotCondition>).filter((key) =>
+      key !== "dry_road" && present[key] &&
+      conditions[key].count / total >= 0.15
+    );
+  }
+
+  // Poisson-distributed count with mean `lambda` (normal approximation for large means)
+  #poisson(lambda: number) {
+    if (lambda <= 0) return 0;
+    if (lambda > 30) {
+      const u1 = this.#randUniform() || 1e-6;
+      const u2 = this.#randUniform();
+      const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+      return Math.max(0, Math.round(lambda + z * Math.sqrt(lambda)));
+    }
+    const limit = Math.exp(-lambda);
+    let n = 0;
+    let p = this.#randUniform();
+    while (p > limit) {
+      n++;
+      p *= this.#randUniform();
+    }
+    return n;
+  }
+
+  // x rounded up with probability equal to its fractional part
+  #randomRound(x: number) {
+    const whole = Math.floor(x);
+    return whole + (this.#randUniform() < x - whole ? 1 : 0);
+  }
+
+  // Store the current hotspot state as the state of the day `ts` falls in
+  // (later calls on the same day overwrite it), then drop expired days. The
+  // hotspot map is replaced rather than mutated, so it is archived without copying.
+  #archiveHotspots(ts: number) {
+    this.#hotspotHistory.set(this.#dayKey(ts), this.#hotspots);
+    this.#pruneHistory(this.#hotspotHistory, this.hotspotHistoryDays, ts);
+  }
+
+  #pruneHistory(history: Map<string, unknown>, days: number, ts: number) {
+    const oldest = this.#dayKey(ts - (days - 1) * 24 * 3600 * 1000);
+    for (const key of history.keys()) {
+      if (key < oldest) history.delete(key);
+    }
+  }
+
+  #historyRange(history: Map<string, unknown>) {
+    const days = [...history.keys()].sort();
+    if (days.length === 0) return undefined;
+    return { from: days[0], to: days[days.length - 1] };
+  }
+
+  // Reconstruct plausible end-of-day states for the retained past days from
+  // the generated hotspots, so history is available right after startup.
+  #backfillHotspotHistory(now: number) {
+    this.#hotspotHistory.clear();
+    const dayMs = 24 * 3600 * 1000;
+    const todayStart = Date.parse(this.#dayKey(now));
+    for (let d = this.hotspotHistoryDays - 1; d >= 1; d--) {
+      const endOfDay = todayStart - (d - 1) * dayMs - 1;
+      const day = new Map<string, RiskHotspot>();
+      for (const [k, v] of this.#hotspots.entries()) {
+        const past = this.#hotspotAsOf(v, endOfDay);
+        if (past) day.set(k, past);
+      }
+      this.#hotspotHistory.set(this.#dayKey(endOfDay), day);
+    }
+    this.#archiveHotspots(now);
+  }
+
+  // A hotspot as it would have looked at `ts`: undefined before its first
+  // incident, the hotspot itself after its last one, otherwise a copy with the
+  // counts scaled down to the elapsed share of its timeframe. Copies share the
+  // parts they leave alone, as hotspots are never mutated once published.
+  #hotspotAsOf(hotspot: RiskHotspot, ts: number): RiskHotspot | undefined {
+    const first = Date.parse(hotspot.timeframe.first);
+    const last = Date.parse(hotspot.timeframe.last);
+    if (ts < first) return undefined;
+    if (ts >= last) return hotspot;
+
+    const share = (ts - first) / Math.max(1, last - first);
+    const scale = (n: number) => Math.round(n * share);
+    const conditions = { ...hotspot.environment.conditions };
+    for (const key of Object.keys(conditions) as Array<HotspotCondition>) {
+      const count = scale(conditions[key].count);
+      conditions[key] = { is_present: count > 0, count };
+    }
+    return {
+      ...hotspot,
+      metadata: {
+        ...hotspot.metadata,
+        total_count: Math.max(1, scale(hotspot.metadata.total_count)),
+      },
+      timeframe: { ...hotspot.timeframe, last: new Date(ts).toISOString() },
+      environment: { ...hotspot.environment, conditions },
+    };
+  }
+
+  #dayKey(ts: number) {
+    return new Date(ts).toISOString().slice(0, 10);
+  }
+
+  // UUID v4-shaped id drawn from a seeded generator, so ids repeat for a seed
+  #seededUuid(r: () => number) {
+    const hex = Array.from(
+      { length: 32 },
+      () => Math.floor(r() * 16).toString(16),
+    );
+    hex[12] = "4";
+    hex[16] = (8 + Math.floor(r() * 4)).toString(16);
+    const s = hex.join("");
+    return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${
+      s.slice(16, 20)
+    }-${s.slice(20)}`;
+  }
+
+  // 32-bit FNV-1a hash of a string key
+  #hashKey(key: string) {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < key.length; i++) {
+      hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193);
+    }
+    return hash >>> 0;
   }
 
   #seededRand(seed: number) {
@@ -560,22 +1477,72 @@ export class Simulation {
     timestampMs: number,
     rngSeed = 0,
   ) {
-    const t = new Date(timestampMs);
-    const doy = this.#dayOfYear(t);
-    const latFactor = (lat - Simulation.#BOUNDS.minLat) /
-      (Simulation.#BOUNDS.maxLat - Simulation.#BOUNDS.minLat);
-    const seasonal = Math.sin(2 * Math.PI * (doy / 365)) * 12;
-    const baseline = 6 - (latFactor * 3);
-    const noise = (this.#randUniform(rngSeed) - 0.5) * 4;
-    const temperature = Math.round((baseline + seasonal + noise) * 10) / 10;
-    const localHour = (t.getUTCHours() + 1) % 24;
-    const isNight = localHour < 6 || localHour >= 21;
+    const field = this.#weatherField(lat, lng, timestampMs);
+    // only a little local variation on top of the field's warm and cold patches
+    const noise = (this.#randUniform(rngSeed) - 0.5) * 0.6;
+    const temperature = Math.round(
+      (this.#expectedTemperature(lat, timestampMs, field) + noise) * 10,
+    ) / 10;
+    const sun = this.#sunAt(lat, lng, timestampMs);
+    const isNight = sun.elevation < CIVIL_TWILIGHT_DEG;
+    return {
+      temperature,
+      is_night: isNight,
+      sun,
+      conditions: this.#fieldConditions(
+        field,
+        temperature,
+        timestampMs,
+        isNight,
+      ),
+    };
+  }
+
+  // Smooth weather field at a place and time, one channel per kind of
+  // weather. Patches are tens of km across, drift east
+  // and change over a few hours, so neighbouring cells see the same weather.
+  #weatherField(lat: number, lng: number, ts: number): WeatherField {
+    const SCALE_KM = 80; // size of the largest patches
+    const DRIFT_KMH = 25; // eastward movement of the whole field
+    const CHANGE_H = 6; // time for a patch to grow, fade or reshape
+    const midLat = (this.#bounds.minLat + this.#bounds.maxLat) / 2;
+    const hours = ts / 3_600_000;
+    const x = (lng * 111.32 * Math.cos(midLat * Math.PI / 180) -
+      hours * DRIFT_KMH) / SCALE_KM;
+    const y = lat * 110.57 / SCALE_KM;
+    const z = hours / CHANGE_H;
+    return {
+      temperature: fractalNoise3(this.#seed, x, y, z),
+      rain: fractalNoise3(this.#seed + 101, x, y, z),
+      fog: fractalNoise3(this.#seed + 202, x, y, z),
+      wind: fractalNoise3(this.#seed + 303, x, y, z),
+    };
+  }
+
+  // climate temperature shifted by up to ±3 °C in the field's warm and cold patches
+  #expectedTemperature(
+    lat: number,
+    ts: number,
+    field: WeatherField,
+  ) {
+    return this.#climateTemperature(lat, ts) + (field.temperature - 0.5) * 6;
+  }
+
+  // Conditions where the field puts them: it rains on the share of the area
+  // the season calls for, hardest in the middle of a rain patch.
+  #fieldConditions(
+    field: WeatherField,
+    temperature: number,
+    ts: number,
+    isNight: boolean,
+  ): Cell["environment"]["conditions"] {
+    const seasonal = this.#seasonalTemperature(ts);
     const rainChanceBase = 0.15 + (0.1 * Math.max(0, seasonal / 12));
-    const rainRoll = this.#randUniform(rngSeed + 1);
+    const rainRoll = 1 - field.rain;
     let rainIntensity: RainIntensity = "NONE";
-    if (rainRoll < rainChanceBase * 0.7) rainIntensity = "LOW";
-    else if (rainRoll < rainChanceBase * 0.9) rainIntensity = "MEDIUM";
-    else if (rainRoll < rainChanceBase * 1.0) rainIntensity = "HIGH";
+    if (rainRoll < rainChanceBase * 0.1) rainIntensity = "HIGH";
+    else if (rainRoll < rainChanceBase * 0.3) rainIntensity = "MEDIUM";
+    else if (rainRoll < rainChanceBase) rainIntensity = "LOW";
     let roadCondition: RoadCondition = "DRY";
     if (rainIntensity === "MEDIUM" || rainIntensity === "HIGH") {
       roadCondition = temperature <= 0 ? "SLIPPERY" : "WET";
@@ -587,26 +1554,197 @@ export class Simulation {
       if (temperature <= -8) roadCondition = "SLIPPERY_ICE";
       else roadCondition = "DRY";
     }
-    const fog =
-      (isNight && temperature < 6 && this.#randUniform(rngSeed + 2) < 0.08) ||
-      (this.#randUniform(rngSeed + 3) < 0.01);
-    const crossWind = this.#randUniform(rngSeed + 4) < 0.05;
+    const fog = (isNight && temperature < 6 && field.fog < 0.08) ||
+      field.fog < 0.01;
+    const crossWind = field.wind < 0.05;
     return {
-      temperature,
-      is_night: isNight,
-      conditions: {
-        rain_intensity: rainIntensity,
-        road_condition: roadCondition,
-        fog,
-        cross_wind: crossWind,
+      rain_intensity: rainIntensity,
+      road_condition: roadCondition,
+      fog,
+      cross_wind: crossWind,
+    };
+  }
+
+  // seasonal swing of the climate temperature (°C) on the day of `ts`
+  #seasonalTemperature(ts: number) {
+    return Math.sin(2 * Math.PI * (this.#dayOfYear(new Date(ts)) / 365)) * 12;
+  }
+
+  // expected temperature at a latitude and time, without weather noise
+  #climateTemperature(lat: number, ts: number) {
+    const latFactor = (lat - this.#bounds.minLat) /
+      (this.#bounds.maxLat - this.#bounds.minLat);
+    return 6 - (latFactor * 3) + this.#seasonalTemperature(ts);
+  }
+
+  // sun position rounded to 0.1° as reported on cells and hotspots
+  #sunAt(lat: number, lng: number, ts: number): SunPosition {
+    const { elevation, azimuth } = sunPosition(lat, lng, ts);
+    return {
+      elevation: Math.round(elevation * 10) / 10,
+      azimuth: Math.round(azimuth * 10) / 10 % 360,
+    };
+  }
+
+  // One hotspot along a random highway with a made-up incident history ending
+  // before `now`; `fresh` hotspots start empty instead, their first incident yet to be recorded.
+  // The id comes from `r` too, drawn again in the unlikely case it is already `taken`.
+  #generateHotspot(
+    r: () => number,
+    now: number,
+    opts?: { fresh?: boolean; taken?: ReadonlyMap<string, unknown> },
+  ): { id: string; hotspot: RiskHotspot } {
+    function sampleAlongPolyline(
+      poly: Array<[number, number]>,
+      r: () => number,
+    ) {
+      const segLengths: number[] = [];
+      let total = 0;
+      for (let i = 0; i < poly.length - 1; i++) {
+        const a = poly[i], b = poly[i + 1];
+        const dx = b[0] - a[0], dy = b[1] - a[1];
+        const L = Math.sqrt(dx * dx + dy * dy);
+        segLengths.push(L);
+        total += L;
+      }
+      let t = r() * total;
+      for (let i = 0; i < segLengths.length; i++) {
+        if (t <= segLengths[i]) {
+          const a = poly[i], b = poly[i + 1];
+          const frac = t / segLengths[i];
+          const lat = a[0] + (b[0] - a[0]) * frac;
+          const lng = a[1] + (b[1] - a[1]) * frac;
+          const heading = bearingDeg(a[0], a[1], b[0], b[1]);
+          return { lat, lng, heading };
+        }
+        t -= segLengths[i];
+      }
+      const last = poly[poly.length - 1];
+      const prev = poly[poly.length - 2];
+      const heading = bearingDeg(prev[0], prev[1], last[0], last[1]);
+      return { lat: last[0], lng: last[1], heading };
+    }
+
+    // Place hotspots primarily along highways
+    const hIdx = Math.floor(r() * highways.length);
+    const poly = highways[hIdx];
+    const base = sampleAlongPolyline(poly, r);
+
+    const lat = base.lat + (r() - 0.5) * 0.001;
+    const lng = base.lng + (r() - 0.5) * 0.001;
+
+    const total_count = 5 + Math.floor(r() ** 3 * 500);
+    const lastTs = now - Math.floor(r() * 30 * 24 * 3600 * 1000); // within last 30 days
+    const firstTs = lastTs - Math.floor((30 + r() * 300) * 24 * 3600 * 1000); // up to a year ago
+
+    const type = RISK_TYPES[Math.floor(r() * RISK_TYPES.length)].code;
+    const impacts = RISK_TYPE_IMPACTS[type];
+    const inRange = ([min, max]: [number, number]) =>
+      min + Math.floor(r() * (max - min + 1));
+    const weather_impact = inRange(impacts.weather);
+    const time_of_day_impact = inRange(impacts.time_of_day);
+
+    // Condition counts between half and all of the type's typical share
+    const shares = incidentShares(type);
+    const conditionCount = (condition: HotspotCondition) =>
+      Math.floor(total_count * shares[condition] * (0.5 + r() / 2));
+    const dry_road_count = conditionCount("dry_road");
+    const wet_road_count = conditionCount("wet_road");
+    const rain_count = Math.min(wet_road_count, conditionCount("rain"));
+    const slippery_road_count = conditionCount("slippery_road");
+    const fog_count = conditionCount("fog");
+    const crosswind_count = conditionCount("crosswind");
+    const incidents = this.#generateHotspotStatistics(
+      r,
+      total_count,
+      time_of_day_impact,
+      { lat, lng, year: new Date(lastTs).getUTCFullYear() },
+    );
+
+    const hotspot: RiskHotspot = {
+      location: {
+        latitude: parseFloat(lat.toFixed(6)),
+        longitude: parseFloat(lng.toFixed(6)),
+        std_dev: 5 + r() * 25,
       },
+      metadata: {
+        id: this.#seededUuid(r),
+        risk: {
+          type,
+          importance: 1 + Math.floor(r() * 5),
+          confidence: 50 + Math.floor(r() * 50),
+          residual_confidence: 10 + Math.floor(r() * 80),
+        },
+        total_count,
+        weather_impact,
+        time_of_day_impact,
+      },
+      timeframe: {
+        first: new Date(firstTs).toISOString(),
+        last: new Date(lastTs).toISOString(),
+      },
+      vehicle: {
+        heading: {
+          avg: Math.round(base.heading + (r() - 0.5) * 10),
+          std_dev: 2 + r() * 15,
+        },
+      },
+      environment: {
+        air_temperature: { avg: -5 + r() * 25, std_dev: 1 + r() * 5 },
+        sun_position: incidents.sun_position,
+        conditions: {
+          dry_road: { is_present: dry_road_count > 0, count: dry_road_count },
+          wet_road: { is_present: wet_road_count > 0, count: wet_road_count },
+          rain: { is_present: rain_count > 0, count: rain_count },
+          slippery_road: {
+            is_present: slippery_road_count > 0,
+            count: slippery_road_count,
+          },
+          fog: { is_present: fog_count > 0, count: fog_count },
+          crosswind: {
+            is_present: crosswind_count > 0,
+            count: crosswind_count,
+          },
+        },
+      },
+      statistics: incidents.statistics,
     };
+
+    if (opts?.fresh) {
+      hotspot.metadata.total_count = 0;
+      hotspot.timeframe.first = hotspot.timeframe.last = new Date(now)
+        .toISOString();
+      for (const condition of Object.values(hotspot.environment.conditions)) {
+        condition.is_present = false;
+        condition.count = 0;
+      }
+      hotspot.environment.sun_position = {
+        avg: 0,
+        std_dev: 0,
+        azimuth: { avg: 0, std_dev: 0 },
+      };
+      hotspot.statistics = this.#generateHotspotStatistics(
+        r,
+        0,
+        time_of_day_impact,
+        { lat, lng, year: new Date(now).getUTCFullYear() },
+      ).statistics;
+    }
+
+    while (opts?.taken?.has(hotspot.metadata.id)) {
+      hotspot.metadata.id = this.#seededUuid(r);
+    }
+    return { id: hotspot.metadata.id, hotspot };
   }
 
+  // Time distributions of `total_count` made-up incidents, with the mean and
+  // spread of the sun elevation at the hotspot over those incidents; each
+  // sampled week is placed in `year`, mid-week.
   #generateHotspotStatistics(
     r: () => number,
     total_count: number,
     time_impact: number,
+    place: { lat: number; lng: number; year: number },
   ) {
     const by_week: Record<number, number> = {};
     const by_day: Record<string, number> = {
@@ -630,6 +1768,7 @@ export class Simulation {
       by_time[timeStr] = 0;
     }
 
+    let sunSum = 0, sunSumSq = 0, sunX = 0, sunY = 0;
     let remaining = total_count;
     while (remaining > 0) {
       // Week
@@ -661,10 +1800,33 @@ export class Simulation {
       }`;
       by_time[timeStr]++;
 
+      const { elevation, azimuth } = sunPosition(
+        place.lat,
+        place.lng,
+        Date.UTC(place.year, 0, (week - 1) * 7 + 4, hour, minute),
+      );
+      sunSum += elevation;
+      sunSumSq += elevation * elevation;
+      sunX += Math.sin(azimuth * Math.PI / 180);
+      sunY += Math.cos(azimuth * Math.PI / 180);
+
       remaining--;
     }
 
-    return { distribution: { by_week, by_day, by_time } };
+    const sunAvg = total_count > 0 ? sunSum / total_count : 0;
+    const sunVariance = total_count > 0
+      ? Math.max(0, sunSumSq / total_count - sunAvg * sunAvg)
+      : 0;
+    return {
+      statistics: { distribution: { by_week, by_day, by_time } },
+      sun_position: {
+        avg: sunAvg,
+        std_dev: Math.sqrt(sunVariance),
+        azimuth: total_count > 0
+          ? azimuthStats(sunX / total_count, sunY / total_count)
+          : { avg: 0, std_dev: 0 },
+      },
+    };
   }
 
   #dayOfYear(d: Date) {
@@ -703,36 +1865,131 @@ export class Simulation {
     }
   }
 
-  #produceRandomRawEvent() {
+  // Random observation for a random known location, or for `target` when given.
+  // Observations inside an active scenario system are biased towards its weather.
+  #produceRandomRawEvent(target?: { lat: number; lng: number; h3: H3Index }) {
     if (this.#cellLocations.length === 0) return;
     const idx = Math.floor(this.#randUniform() * this.#cellLocations.length);
-    const loc = this.#cellLocations[idx];
-    const now = Date.now();
+    const loc = target ?? this.#cellLocations[idx];
+    const now = this.clock.now();
     const base = this.#snapshot.get(loc.h3);
-    const seed = idx ^ (now % 100000);
+    const seed = idx;
+    const influence = this.#scenarioInfluenceAt(loc.lat, loc.lng, now);
+
+    // strip the scenario offset already baked into the snapshot so it doesn't compound
     let temp = base
-      ? base.environment.temperature
+      ? base.environment.temperature -
+        (this.#snapshotTempOffsets.get(loc.h3) ?? 0)
       : (5 + this.#randUniform(seed) * 15);
+    // drift towards the field's temperature for the simulated date, so seasons
+    // follow the clock and warm and cold patches move through smoothly
+    const field = this.#weatherField(loc.lat, loc.lng, now);
+    temp += (this.#expectedTemperature(loc.lat, now, field) - temp) * 0.05;
     temp += (this.#randUniform(seed + 1) - 0.5) * 0.6;
-    const fog = this.#randUniform(seed + 2) < 0.01;
-    const crossWind = this.#randUniform(seed + 3) < 0.02;
-    const heavy = this.#randUniform(seed + 4) < 0.002;
-    const rainRoll = this.#randUniform(seed + 5);
-    const rain = heavy
-      ? (rainRoll < 0.7 ? "HIGH" : "MEDIUM")
-      : (rainRoll < 0.02 ? "LOW" : "NONE");
-    this.pushRawEvent(loc.h3, {
+    const tempOffset = influence?.temperatureOffset ?? 0;
+    temp += tempOffset;
+
+    const conditions = this.#fieldConditions(
+      field,
+      temp,
+      now,
+      sunPosition(loc.lat, loc.lng, now).elevation < CIVIL_TWILIGHT_DEG,
+    );
+    let fog = conditions.fog;
+    const crossWind = conditions.cross_wind;
+    let rain = conditions.rain_intensity;
+    let road = conditions.road_condition;
+
+    if (influence) {
+      if (this.#randUniform(seed + 7) < influence.rain) {
+        rain = influence.rain > 0.66
+          ? "HIGH"
+          : influence.rain > 0.33
+          ? "MEDIUM"
+          : "LOW";
+        road = temp <= 0
+          ? "SLIPPERY"
+          : rain === "HIGH"
+          ? "SLIPPERY_WET"
+          : "WET";
+      }
+      if (this.#randUniform(seed + 8) < influence.ice) road = "SLIPPERY_ICE";
+      if (this.#randUniform(seed + 9) < influence.fog) fog = true;
+    }
+
+    this.#accumulateRawEvent(loc.h3, {
       temperature: Math.round(temp * 10) / 10,
       confidence: Math.floor(60 + this.#randUniform(seed + 6) * 40),
       count: 1,
       fog,
       cross_wind: crossWind,
-      rain_intensity: rain as RainIntensity,
-      road_condition: (rain !== "NONE"
-        ? (temp <= 0 ? "SLIPPERY" : "WET")
-        : (temp <= -8 ? "SLIPPERY_ICE" : "DRY")) as RoadCondition,
+      rain_intensity: rain,
+      road_condition: road,
       timestamp: now,
-    });
+    }, tempOffset);
+  }
+
+  #scenarioInfluenceAt(
+    lat: number,
+    lng: number,
+    ts: number,
+  ): WeatherInfluence | undefined {
+    if (!this.#scenario) return undefined;
+    const { scenario, startedAt } = this.#scenario;
+    return influenceAt(scenario, (ts - startedAt) / 60_000, lat, lng);
+  }
+
+  // One real-time tick: produce the events due for the simulated time that passed
+  // since the previous tick, then swap the snapshot once its interval is up.
+  // Any clock jump produces no events for the skipped time, and jumping back
+  // restarts the snapshot interval. Past #MAX_TICK_BATCHES per tick (speeds
+  // above 50) events fall behind simulated time, so fewer cells get events in
+  // each interval and the others drop out of the snapshot.
+  #tick() {
+    this.clock.advance(Simulation.#TICK_MS);
+    const now = this.clock.now();
+    const elapsed = now - this.#lastTickAt;
+    this.#lastTickAt = now;
+    // a jump skips the events of the skipped time
+    const jumped = this.clock.jumps !== this.#lastTickJumps;
+    this.#lastTickJumps = this.clock.jumps;
+    if (elapsed < 0) {
+      this.#nextSnapshotAt = now + this.snapshotIntervalMs;
+    } else if (!jumped) {
+      this.#eventBudget = Math.min(
+        this.#eventBudget +
+          this.#eventBatchSize * elapsed / Simulation.#TICK_MS,
+        this.#eventBatchSize * Simulation.#MAX_TICK_BATCHES,
+      );
+      const count = Math.floor(this.#eventBudget);
+      this.#eventBudget -= count;
+      // random raw events only touch #rawAgg
+      for (let k = 0; k < count; k++) this.#produceRandomRawEvent();
+      this.#produceScenarioEvents(count);
+    }
+    if (now >= this.#nextSnapshotAt) this.publishSnapshot();
+  }
+
+  // Extra observations from inside each active system's footprint, so its
+  // weather shows up in the snapshot rather than in the odd random cell.
+  #produceScenarioEvents(perSystem: number) {
+    if (!this.#scenario) return;
+    const { scenario, startedAt } = this.#scenario;
+    const elapsedMin = (this.clock.now() - startedAt) / 60_000;
+    for (const system of scenario.systems) {
+      const state = systemStateAt(system, elapsedMin);
+      if (!state.active) continue;
+      const candidates = [
+        ...this.#cellIndex.query(footprintBbox(system, state)),
+      ];
+      if (candidates.length === 0) continue;
+      for (let k = 0; k < perSystem; k++) {
+        const h3Index =
+          candidates[Math.floor(this.#randUniform() * candidates.length)];
+        const [lat, lng] = this.#cellIndex.point(h3Index)!;
+        this.#produceRandomRawEvent({ lat, lng, h3: h3Index });
+      }
+    }
   }
 
   #generateInitialStatisticsPlaceholder(): CellStatistics {
@@ -747,49 +2004,146 @@ export class Simulation {
     };
   }
 
-  #generateInitialStatisticsForCell(cell: Cell): CellStatistics {
-    const t = cell.environment.temperature;
-    const lowestVal = Math.round((t - (5 + this.#randUniform() * 15)) * 10) /
-      10;
-    const highestVal = Math.round((t + (10 + this.#randUniform() * 15)) * 10) /
-      10;
-    const now = Date.now();
-    const lowestTs = new Date(
-      now - Math.floor(this.#randUniform() * 365) * 24 * 3600 * 1000,
-    );
-    const highestTs = new Date(
-      now - Math.floor(this.#randUniform() * 200) * 24 * 3600 * 1000,
-    );
-    const baseDays = Math.max(1, Math.round(cell.metadata.total_count / 10));
-    const rainLow = Math.round(
-      baseDays * Math.min(1, this.#randUniform() * 0.6),
-    );
-    const rainMed = Math.round(
-      baseDays * Math.min(1, this.#randUniform() * 0.3),
-    );
-    const rainHigh = Math.round(
-      baseDays * Math.min(1, this.#randUniform() * 0.05),
-    );
-    const slippery = Math.round(
-      baseDays * (t <= 0 ? 0.4 : 0.05) * this.#randUniform(),
-    );
-    const fog = Math.round(
-      baseDays * (cell.environment.conditions.fog ? 0.6 : 0.05) *
-        this.#randUniform(),
-    );
-    const crossWind = Math.round(baseDays * 0.1 * this.#randUniform());
-    return {
-      temperature: {
-        lowest: { value: lowestVal, timestamp: lowestTs.toISOString() },
-        highest: { value: highestVal, timestamp: highestTs.toISOString() },
+  // Fold the current snapshot into the long-term statistics: temperatures
+  // beyond a cell's extremes replace them, and its conditions join the tally
+  // of the day of `ts`. A day adds to the stored day counts once it is over;
+  // getCell adds the day in progress on top.
+  #recordStatistics(ts: number) {
+    const day = this.#dayKey(ts);
+    if (this.#statsToday.day !== day) {
+      for (const [h3Index, tally] of this.#statsToday.tallies) {
+        const stats = this.#stats.get(h3Index);
+        if (stats) this.#addDayCounts(stats.day_counts, tally);
+      }
+      this.#statsToday = { day, tallies: new Map() };
+    }
+    const { tallies } = this.#statsToday;
+    for (const [h3Index, cell] of this.#snapshot) {
+      let stats = this.#stats.get(h3Index);
+      if (!stats) {
+        stats = this.#generateInitialStatisticsPlaceholder();
+        this.#stats.set(h3Index, stats);
+      }
+      this.#recordTemperature(stats, cell.environment.temperature, ts);
+      let tally = tallies.get(h3Index);
+      if (!tally) {
+        tally = [0, 0, 0, 0, 0, 0, 0];
+        tallies.set(h3Index, tally);
+      }
+      this.#tallyConditions(tally, cell.environment.conditions);
+    }
+  }
+
+  // Statistics of the year before #statsSince as the weather field would have
+  // produced them, sampled at four hours spread over each day; the same for a
+  // cell and seed every time.
+  #backfilledStatistics(h3Index: H3Index): CellStatistics {
+    const cached = this.#statsBackfill.get(h3Index);
+    if (cached) {
+      // most recently used last, the first entry is evicted
+      this.#statsBackfill.delete(h3Index);
+      this.#statsBackfill.set(h3Index, cached);
+      return cached;
+    }
+
+    const stats = this.#generateInitialStatisticsPlaceholder();
+    const r = this.#seededRand(this.#seed ^ this.#hashKey(h3Index));
+    const [lat, lng] = h3.cellToLatLng(h3Index);
+    const dayMs = 24 * 3600 * 1000;
+    const firstDay = Date.parse(this.#dayKey(this.#statsSince)) -
+      Simulation.#STATS_BACKFILL_DAYS * dayMs;
+    for (let d = 0; d < Simulation.#STATS_BACKFILL_DAYS; d++) {
+      const tally = [0, 0, 0, 0, 0, 0, 0];
+      for (const hour of [3, 9, 13, 19]) {
+        const ts = firstDay + d * dayMs + hour * 3600 * 1000;
+        const field = this.#weatherField(lat, lng, ts);
+        const temperature = Math.round(
+          (this.#expectedTemperature(lat, ts, field) + (r() - 0.5) * 0.6) * 10,
+        ) / 10;
+        this.#recordTemperature(stats, temperature, ts);
+        const isNight =
+          sunPosition(lat, lng, ts).elevation < CIVIL_TWILIGHT_DEG;
+        this.#tallyConditions(
+          tally,
+          this.#fieldConditions(field, temperature, ts, isNight),
+        );
+      }
+      this.#addDayCounts(stats.day_counts, tally);
+    }
+    this.#statsBackfill.set(h3Index, stats);
+    if (this.#statsBackfill.size > Simulation.#STATS_BACKFILL_CACHE) {
+      this.#statsBackfill.delete(this.#statsBackfill.keys().next().value!);
+    }
+    return stats;
+  }
+
+  #recordTemperature(stats: CellStatistics, value: number, ts: number) {
+    const { lowest, highest } = stats.temperature;
+    if (!lowest || value < lowest.value) {
+      stats.temperature.lowest = {
+        value,
+        timestamp: new Date(ts).toISOString(),
+      };
+    }
+    if (!highest || value > highest.value) {
+      stats.temperature.highest = {
+        value,
+        timestamp: new Date(ts).toISOString(),
+      };
+    }
+  }
+
+  // Count one sample of a cell's conditions into its day's tally: [samples,
+  // rain at least LOW, at least MEDIUM, HIGH, slippery road, fog, cross wind].
+  #tallyConditions(
+    tally: Array<number>,
+    conditions: Cell["environment"]["conditions"],
+  ) {
+    const rain = ["LOW", "MEDIUM", "HIGH"].indexOf(conditions.rain_intensity);
+    tally[0]++;
+    for (let level = 0; level <= rain; level++) tally[1 + level]++;
+    if (conditions.road_condition.startsWith("SLIPPERY")) tally[4]++;
+    if (conditions.fog) tally[5]++;
+    if (conditions.cross_wind) tally[6]++;
+  }
+
+  // A day counts for the conditions that held in at least half of its
+  // samples, and for the heaviest rain that did.
+  #addDayCounts(counts: CellStatistics["day_counts"], tally: Array<number>) {
+    const [samples, low, medium, high, slippery, fog, crossWind] = tally;
+    const prevailed = (n: number) => n > 0 && n >= samples / 2;
+    if (prevailed(high)) counts.rain.high++;
+    else if (prevailed(medium)) counts.rain.medium++;
+    else if (prevailed(low)) counts.rain.low++;
+    if (prevailed(slippery)) counts.slippery_road++;
+    if (prevailed(fog)) counts.fog++;
+    if (prevailed(crossWind)) counts.cross_wind++;
+  }
+
+  // Statistics over two disjoint periods: the more extreme temperatures and
+  // the summed day counts.
+  #combineStatistics(a: CellStatistics, b: CellStatistics): CellStatistics {
+    const lower = (x: typeof a.temperature.lowest, y: typeof x) =>
+      !x || (y && y.value < x.value) ? y : x;
+    const higher = (x: typeof a.temperature.highest, y: typeof x) =>
+      !x || (y && y.value > x.value) ? y : x;
+    const counts = (x: CellStatistics, y: CellStatistics) => ({
+      rain: {
+        low: x.day_counts.rain.low + y.day_counts.rain.low,
+        medium: x.day_counts.rain.medium + y.day_counts.rain.medium,
+        high: x.day_counts.rain.high + y.day_counts.rain.high,
       },
-      day_counts: {
-        rain: { low: rainLow, medium: rainMed, high: rainHigh },
-        slippery_road: slippery,
-        fog,
-        cross_wind: crossWind,
+      slippery_road: x.day_counts.slippery_road + y.day_counts.slippery_road,
+      fog: x.day_counts.fog + y.day_counts.fog,
+      cross_wind: x.day_counts.cross_wind + y.day_counts.cross_wind,
+    });
+    return structuredClone({
+      temperature: {
+        lowest: lower(a.temperature.lowest, b.temperature.lowest),
+        highest: higher(a.temperature.highest, b.temperature.highest),
       },
-    };
+      day_counts: counts(a, b),
+    });
   }
 
   #mergeStatistics(
@@ -827,18 +2181,52 @@ export class Simulation {
         "Invalid bounding box provided. Must be an array of [minLng, minLat, maxLng, maxLat].",
       );
     }
-    const [minLng, minLat, maxLng, maxLat] = bbox;
     const out: Record<string, Cell> = {};
 
-    for (const [h3Index, cell] of this.#snapshot.entries()) {
-      const [lat, lng] = h3.cellToLatLng(h3Index);
-      if (lat >= minLat && lat <= maxLat && lng >= minLng && lng <= maxLng) {
-        out[h3Index] = structuredClone(cell);
+    for (const h3Index of this.#cellIndex.query(bbox)) {
+      const cell = this.#snapshot.get(h3Index);
+      if (cell) out[h3Index] = structuredClone(cell);
+    }
+    return out;
+  }
+
+  /** Snapshot cells whose centroid lies within radiusM metres of lat/lng, nearest first, with that distance. */
+  getSnapshotInRadius(
+    lat: number,
+    lng: number,
+    radiusM: number,
+  ): Record<string, Cell & { distance_m: number }> {
+    const out: Record<string, Cell & { distance_m: number }> = {};
+    const nearby = this.#cellIndex.queryRadius(lat, lng, radiusM);
+    for (const [h3Index, distance] of nearby) {
+      const cell = this.#snapshot.get(h3Index);
+      if (cell) {
+        out[h3Index] = {
+          ...structuredClone(cell),
+          distance_m: Math.round(distance),
+        };
       }
     }
     return out;
   }
 
+  /** Snapshot cells whose centroid lies inside the polygons. */
+  getSnapshotInPolygons(polygons: Polygons): Record<string, Cell> {
+    const out: Record<string, Cell> = {};
+    for (const h3Index of this.#cellIndex.queryPolygons(polygons)) {
+      const cell = this.#snapshot.get(h3Index);
+      if (cell) out[h3Index] = structuredClone(cell);
+    }
+    return out;
+  }
+
+  #isCellInBbox(h3Index: H3Index, bbox: BoundingBox) {
+    const [minLng, minLat, maxLng, maxLat] = bbox;
+    const [lat, lng] = this.#cellIndex.point(h3Index) ??
+      h3.cellToLatLng(h3Index);
+    return lat >= minLat && lat <= maxLat && lng >= minLng && lng <= maxLng;
+  }
+
   /**
    * NEW: Filters and returns risk hotspots within a given bounding box.
    * @param bbox - The bounding box as [minLng, minLat, maxLng, maxLat].
@@ -850,14 +2238,168 @@ export class Simulation {
         "Invalid bounding box provided. Must be an array of [minLng, minLat, maxLng, maxLat].",
       );
     }
-    const [minLng, minLat, maxLng, maxLat] = bbox;
     const out: Record<string, RiskHotspot> = {};
 
-    for (const [id, hotspot] of this.#hotspots.entries()) {
-      const { latitude: lat, longitude: lng } = hotspot.location;
-      if (lat >= minLat && lat <= maxLat && lng >= minLng && lng <= maxLng) {
-        out[id] = structuredClone(hotspot);
+    for (const id of this.#hotspotIndex.query(bbox)) {
+      const hotspot = this.#hotspots.get(id);
+      if (hotspot) out[id] = structuredClone(hotspot);
+    }
+    return out;
+  }
+
+  /** Hotspots within radiusM metres of lat/lng, nearest first, with that distance. */
+  getHotspotsInRadius(
+    lat: number,
+    lng: number,
+    radiusM: number,
+  ): Record<string, RiskHotspot & { distance_m: number }> {
+    const out: Record<string, RiskHotspot & { distance_m: number }> = {};
+    const nearby = this.#hotspotIndex.queryRadius(lat, lng, radiusM);
+    for (const [id, distance] of nearby) {
+      const hotspot = this.#hotspots.get(id);
+      if (hotspot) {
+        out[id] = {
+          ...structuredClone(hotspot),
+          distance_m: Math.round(distance),
+        };
+      }
+    }
+    return out;
+  }
+
+  /** Hotspots inside the polygons. */
+  getHotspotsInPolygons(polygons: Polygons): Record<string, RiskHotspot> {
+    const out: Record<string, RiskHotspot> = {};
+    for (const id of this.#hotspotIndex.queryPolygons(polygons)) {
+      const hotspot = this.#hotspots.get(id);
+      if (hotspot) out[id] = structuredClone(hotspot);
+    }
+    return out;
+  }
+
+  /**
+   * Hotspots within corridorM metres of a route ([lat, lng] points in driving
+   * order) whose average heading, give or take its std_dev, matches the
+   * direction of travel where the route passes them; in driving order.
+   */
+  getHotspotsAlongRoute(
+    route: Array<[number, number]>,
+    corridorM: number,
+  ): Array<[string, RiskHotspot & { along_m: number; offset_m: number }]> {
+    // segments whose corridor bbox holds each hotspot; only those are projected onto
+    const candidates = new Map<string, Array<number>>();
+    const dLat = corridorM / 111_320;
+    for (let i = 0; i < route.length - 1; i++) {
+      const [aLat, aLng] = route[i], [bLat, bLng] = route[i + 1];
+      const maxLat = Math.max(Math.abs(aLat), Math.abs(bLat));
+      const dLng = dLat / Math.max(Math.cos(maxLat * Math.PI / 180), 1e-6);
+      const segmentBbox: BoundingBox = [
+        Math.min(aLng, bLng) - dLng,
+        Math.min(aLat, bLat) - dLat,
+        Math.max(aLng, bLng) + dLng,
+        Math.max(aLat, bLat) + dLat,
+      ];
+      for (const id of this.#hotspotIndex.query(segmentBbox)) {
+        const segments = candidates.get(id);
+        if (segments) segments.push(i);
+        else candidates.set(id, [i]);
+      }
+    }
+
+    // distance along the route to the start of each segment
+    const segmentStartM = [0];
+    for (let i = 0; i < route.length - 1; i++) {
+      segmentStartM.push(
+        segmentStartM[i] +
+          projectOntoSegment(0, 0, route[i], route[i + 1]).lengthM,
+      );
+    }
+
+    const out: Array<
+      [string, RiskHotspot & { along_m: number; offset_m: number }]
+    > = [];
+    for (const [id, segments] of candidates) {
+      const hotspot = this.#hotspots.get(id);
+      if (!hotspot) continue;
+      const { latitude, longitude } = hotspot.location;
+      let best = { offsetM: Infinity, alongM: 0, segment: 0 };
+      for (const i of segments) {
+        const { offsetM, alongM } = projectOntoSegment(
+          latitude,
+          longitude,
+          route[i],
+          route[i + 1],
+        );
+        if (offsetM < best.offsetM) {
+          best = { offsetM, alongM: segmentStartM[i] + alongM, segment: i };
+        }
+      }
+      const [aLat, aLng] = route[best.segment];
+      const [bLat, bLng] = route[best.segment + 1];
+      const bearing = bearingDeg(aLat, aLng, bLat, bLng);
+      const { avg, std_dev } = hotspot.vehicle.heading;
+      if (
+        best.offsetM > corridorM || headingDifference(bearing, avg) > std_dev
+      ) {
+        continue;
+      }
+      out.push([id, {
+        ...structuredClone(hotspot),
+        along_m: Math.round(best.alongM),
+        offset_m: Math.round(best.offsetM),
+      }]);
+    }
+    return out.sort((a, b) => a[1].along_m - b[1].along_m);
+  }
+
+  /**
+   * Snapshot cells a route ([lat, lng] points in driving order) passes
+   * through, in the order it enters them, with the distance from the start.
+   */
+  getCellsAlongRoute(
+    route: Array<[number, number]>,
+  ): Array<Cell & { along_m: number }> {
+    // sample at half an edge length so no cell the route crosses is skipped
+    const stepM = h3.getHexagonEdgeLengthAvg(this.resolution, h3.UNITS.m) / 2;
+    // only the part of a segment inside the simulated area (plus a cell) is sampled
+    const margin = 2 * stepM / 111_320;
+    const { minLat, maxLat, minLng, maxLng } = this.#bounds;
+    const seen = new Set<H3Index>();
+    const out: Array<Cell & { along_m: number }> = [];
+    let travelled = 0;
+    for (let i = 0; i < route.length - 1; i++) {
+      const [aLat, aLng] = route[i], [bLat, bLng] = route[i + 1];
+      const length = haversineKm(aLat, aLng, bLat, bLng) * 1000;
+      const dLngMargin = margin /
+        Math.max(
+          Math.cos(Math.max(Math.abs(aLat), Math.abs(bLat)) * Math.PI / 180),
+          1e-6,
+        );
+      const [from, to] = clipSegment(
+        [aLat, aLng],
+        [bLat, bLng],
+        [minLat - margin, maxLat + margin],
+        [minLng - dLngMargin, maxLng + dLngMargin],
+      );
+      const steps = Math.max(1, Math.ceil(length * (to - from) / stepM));
+      for (let step = 0; from <= to && step <= steps; step++) {
+        const t = from + (to - from) * step / steps;
+        const h3Index = this.#h3IndexFromLatLng(
+          aLat + (bLat - aLat) * t,
+          aLng + (bLng - aLng) * t,
+          this.resolution,
+        );
+        if (seen.has(h3Index)) continue;
+        seen.add(h3Index);
+        const cell = this.#snapshot.get(h3Index);
+        if (cell) {
+          out.push({
+            ...structuredClone(cell),
+            along_m: Math.round(travelled + length * t),
+          });
+        }
       }
+      travelled += length;
     }
     return out;
   }
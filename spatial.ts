@@ -0,0 +1,260 @@
+import type { BoundingBox, Polygons } from "./types.ts";
+
+const EARTH_RADIUS_KM = 6371;
+const M_PER_DEG_LAT = 111_320;
+
+export function haversineKm(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+) {
+  const toRad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * toRad;
+  const dLng = (lng2 - lng1) * toRad;
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * toRad) * Math.cos(lat2 * toRad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/** Direction from the first point to the second, degrees clockwise from north. */
+export function bearingDeg(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+) {
+  const dx = (lng2 - lng1) * Math.cos(lat1 * Math.PI / 180);
+  const dy = lat2 - lat1;
+  return (Math.atan2(dx, dy) * 180 / Math.PI + 360) % 360;
+}
+
+/** Smallest angle between two headings, 0..180 degrees. */
+export function headingDifference(a: number, b: number) {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+/** Length in km of a polyline of [lat, lng] points. */
+export function routeLengthKm(route: Array<[number, number]>): number {
+  let km = 0;
+  for (let i = 0; i < route.length - 1; i++) {
+    km += haversineKm(...route[i], ...route[i + 1]);
+  }
+  return km;
+}
+
+/**
+ * Closest point to lat/lng on the segment from a to b ([lat, lng] points): how
+ * far off the segment lat/lng is, how far from a that point lies and the
+ * segment's length. Distances are metres on a local flat projection.
+ */
+export function projectOntoSegment(
+  lat: number,
+  lng: number,
+  [aLat, aLng]: [number, number],
+  [bLat, bLng]: [number, number],
+) {
+  const mPerDegLng = M_PER_DEG_LAT * Math.cos(aLat * Math.PI / 180);
+  const bx = (bLng - aLng) * mPerDegLng, by = (bLat - aLat) * M_PER_DEG_LAT;
+  const px = (lng - aLng) * mPerDegLng, py = (lat - aLat) * M_PER_DEG_LAT;
+  const lengthM = Math.hypot(bx, by);
+  const t = lengthM > 0
+    ? Math.min(1, Math.max(0, (px * bx + py * by) / lengthM ** 2))
+    : 0;
+  return {
+    offsetM: Math.hypot(px - bx * t, py - by * t),
+    alongM: lengthM * t,
+    lengthM,
+  };
+}
+
+/**
+ * Liang-Barsky clip of the segment from a to b ([lat, lng] points) to a
+ * lat/lng range: the [from, to] fraction of the segment inside it, with
+ * from > to when the segment misses the range.
+ */
+export function clipSegment(
+  [aLat, aLng]: [number, number],
+  [bLat, bLng]: [number, number],
+  [minLat, maxLat]: [number, number],
+  [minLng, maxLng]: [number, number],
+): [number, number] {
+  let from = 0, to = 1;
+  const edges: Array<[number, number]> = [
+    [aLat - bLat, aLat - minLat],
+    [bLat - aLat, maxLat - aLat],
+    [aLng - bLng, aLng - minLng],
+    [bLng - aLng, maxLng - aLng],
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return [1, 0];
+    } else if (p < 0) from = Math.max(from, q / p);
+    else to = Math.min(to, q / p);
+  }
+  return [from, to];
+}
+
+/** Bounding box of all rings of the polygons. */
+export function polygonsBbox(polygons: Polygons): BoundingBox {
+  let minLng = Infinity, minLat = Infinity;
+  let maxLng = -Infinity, maxLat = -Infinity;
+  for (const polygon of polygons) {
+    for (const ring of polygon) {
+      for (const [lng, lat] of ring) {
+        minLng = Math.min(minLng, lng);
+        minLat = Math.min(minLat, lat);
+        maxLng = Math.max(maxLng, lng);
+        maxLat = Math.max(maxLat, lat);
+      }
+    }
+  }
+  return [minLng, minLat, maxLng, maxLat];
+}
+
+/** Whether lat/lng lies inside any of the polygons (holes excluded), by ray casting in lng/lat space. */
+export function pointInPolygons(lat: number, lng: number, polygons: Polygons) {
+  return polygons.some((polygon) => {
+    // crossing every ring counts holes out by the even-odd rule
+    let inside = false;
+    for (const ring of polygon) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i], [xj, yj] = ring[j];
+        if (
+          (yi > lat) !== (yj > lat) &&
+          lng < (xj - xi) * (lat - yi) / (yj - yi) + xi
+        ) {
+          inside = !inside;
+        }
+      }
+    }
+    return inside;
+  });
+}
+
+/**
+ * Uniform lat/lng grid over precomputed points. Bbox queries only visit the
+ * buckets overlapping the box instead of every indexed point.
+ */
+export class GridIndex<K> {
+  readonly bucketSizeDeg: number;
+
+  #points = new Map<K, { lat: number; lng: number; bucket: string }>();
+  #buckets = new Map<string, Set<K>>();
+
+  constructor(bucketSizeDeg = 0.05) {
+    this.bucketSizeDeg = bucketSizeDeg;
+  }
+
+  get size() {
+    return this.#points.size;
+  }
+
+  has(key: K) {
+    return this.#points.has(key);
+  }
+
+  /** Indexed [lat, lng] of a key, if present. */
+  point(key: K): [number, number] | undefined {
+    const p = this.#points.get(key);
+    return p ? [p.lat, p.lng] : undefined;
+  }
+
+  /** Add a point, or move it if the key is already indexed. */
+  insert(key: K, lat: number, lng: number) {
+    this.remove(key);
+    const bucket = this.#bucketKey(this.#row(lat), this.#col(lng));
+    this.#points.set(key, { lat, lng, bucket });
+    let keys = this.#buckets.get(bucket);
+    if (!keys) {
+      keys = new Set();
+      this.#buckets.set(bucket, keys);
+    }
+    keys.add(key);
+  }
+
+  remove(key: K) {
+    const p = this.#points.get(key);
+    if (!p) return;
+    this.#points.delete(key);
+    const keys = this.#buckets.get(p.bucket);
+    keys?.delete(key);
+    if (keys?.size === 0) this.#buckets.delete(p.bucket);
+  }
+
+  clear() {
+    this.#points.clear();
+    this.#buckets.clear();
+  }
+
+  /** Keys whose point lies inside bbox ([minLng, minLat, maxLng, maxLat], inclusive). */
+  *query(bbox: BoundingBox): Generator<K> {
+    const [minLng, minLat, maxLng, maxLat] = bbox;
+    const minRow = this.#row(minLat), maxRow = this.#row(maxLat);
+    const minCol = this.#col(minLng), maxCol = this.#col(maxLng);
+
+    // for very large boxes walking the occupied buckets is cheaper than the range
+    const span = (maxRow - minRow + 1) * (maxCol - minCol + 1);
+    const buckets: Iterable<Set<K>> = span > this.#buckets.size
+      ? this.#buckets.values()
+      : this.#bucketsInRange(minRow, maxRow, minCol, maxCol);
+
+    for (const keys of buckets) {
+      for (const key of keys) {
+        const { lat, lng } = this.#points.get(key)!;
+        if (lat >= minLat && lat <= maxLat && lng >= minLng && lng <= maxLng) {
+          yield key;
+        }
+      }
+    }
+  }
+
+  /** Keys within radiusM metres of lat/lng with their distance in metres, nearest first. */
+  queryRadius(lat: number, lng: number, radiusM: number): Array<[K, number]> {
+    const dLat = radiusM / M_PER_DEG_LAT;
+    const dLng = radiusM /
+      (M_PER_DEG_LAT * Math.max(Math.cos(lat * Math.PI / 180), 1e-6));
+    const out: Array<[K, number]> = [];
+    for (
+      const key of this.query([lng - dLng, lat - dLat, lng + dLng, lat + dLat])
+    ) {
+      const p = this.#points.get(key)!;
+      const distance = haversineKm(lat, lng, p.lat, p.lng) * 1000;
+      if (distance <= radiusM) out.push([key, distance]);
+    }
+    return out.sort((a, b) => a[1] - b[1]);
+  }
+
+  /** Keys whose point lies inside the polygons. */
+  *queryPolygons(polygons: Polygons): Generator<K> {
+    for (const key of this.query(polygonsBbox(polygons))) {
+      const { lat, lng } = this.#points.get(key)!;
+      if (pointInPolygons(lat, lng, polygons)) yield key;
+    }
+  }
+
+  *#bucketsInRange(
+    minRow: number,
+    maxRow: number,
+    minCol: number,
+    maxCol: number,
+  ) {
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const keys = this.#buckets.get(this.#bucketKey(row, col));
+        if (keys) yield keys;
+      }
+    }
+  }
+
+  #row(lat: number) {
+    return Math.floor(lat / this.bucketSizeDeg);
+  }
+  #col(lng: number) {
+    return Math.floor(lng / this.bucketSizeDeg);
+  }
+  #bucketKey(row: number, col: number) {
+    return `${row}:${col}`;
+  }
+}
@@ -0,0 +1,69 @@
+import type { SunPosition } from "./types.ts";
+
+const RAD = Math.PI / 180;
+
+// Sun below this elevation (degrees) is past civil twilight: it is night.
+export const CIVIL_TWILIGHT_DEG = -6;
+
+/**
+ * Apparent position of the sun seen from lat/lng at `ts` (epoch ms), from the
+ * low-precision solar coordinates of the Astronomical Almanac; good to about
+ * a hundredth of a degree, ignoring refraction.
+ */
+export function sunPosition(lat: number, lng: number, ts: number): SunPosition {
+  const rad = Math.PI / 180;
+  const d = ts / 86_400_000 - 10_957.5; // days since J2000.0
+  const meanAnomaly = (357.529 + 0.98560028 * d) * rad;
+  const meanLongitude = 280.459 + 0.98564736 * d;
+  const eclipticLongitude = (meanLongitude +
+    1.915 * Math.sin(meanAnomaly) + 0.020 * Math.sin(2 * meanAnomaly)) * rad;
+  const obliquity = (23.439 - 0.00000036 * d) * rad;
+
+  const rightAscension = Math.atan2(
+    Math.cos(obliquity) * Math.sin(eclipticLongitude),
+    Math.cos(eclipticLongitude),
+  );
+  const declination = Math.asin(
+    Math.sin(obliquity) * Math.sin(eclipticLongitude),
+  );
+  const siderealDeg = (280.46061837 + 360.98564736629 * d) % 360;
+  const hourAngle = (siderealDeg + lng) * rad - rightAscension;
+
+  const phi = lat * rad;
+  const elevation = Math.asin(
+    Math.sin(phi) * Math.sin(declination) +
+      Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle),
+  );
+  const azimuth = Math.atan2(
+    -Math.sin(hourAngle),
+    Math.tan(declination) * Math.cos(phi) - Math.sin(phi) * Math.cos(hourAngle),
+  );
+  return {
+    elevation: elevation / rad,
+    azimuth: (azimuth / rad + 360) % 360,
+  };
+}
+
+/**
+ * Circular mean and spread (degrees) of azimuths from the mean of their unit
+ * vectors, x pointing east and y north. The spread is the circular standard
+ * deviation, capped at 180 for azimuths spread all around.
+ */
+export function azimuthStats(
+  x: number,
+  y: number,
+): { avg: number; std_dev: number } {
+  const length = Math.min(1, Math.hypot(x, y));
+  return {
+    avg: length > 0 ? (Math.atan2(x, y) / RAD + 360) % 360 : 0,
+    std_dev: Math.min(180, Math.sqrt(-2 * Math.log(length)) / RAD),
+  };
+}
+
+/** Mean unit vector of azimuths with the circular mean and spread given. */
+export function azimuthVector(
+  { avg, std_dev }: { avg: number; std_dev: number },
+): [number, number] {
+  const length = Math.exp(-((std_dev * RAD) ** 2) / 2);
+  return [Math.sin(avg * RAD) * length, Math.cos(avg * RAD) * length];
+}
@@ -1,5 +1,11 @@
+import type { SimulationClock } from "./clock.ts";
+import type { RiskTypeCode } from "./risks.ts";
+import type { Scenario } from "./validation.ts";
+
 export type BoundingBox = [number, number, number, number]; // [minLng, minLat, maxLng, maxLat]
 export type H3Index = string;
+// GeoJSON MultiPolygon coordinates: polygons of rings of [lng, lat] positions
+export type Polygons = Array<Array<Array<[number, number]>>>;
 export type RainIntensity = "NONE" | "LOW" | "MEDIUM" | "HIGH" | "UNRECOGNIZED";
 export type RoadCondition =
   | "DRY"
@@ -9,13 +15,19 @@ export type RoadCondition =
   | "SLIPPERY_WET"
   | "UNRECOGNIZED";
 
+export type SunPosition = {
+  elevation: number; // degrees above the horizon, negative below it
+  azimuth: number; // degrees clockwise from north
+};
+
 export type Cell = {
   location: { h3_index: H3Index };
   timeframe: { last: string };
   metadata: { confidence: number; total_count: number };
   environment: {
     temperature: number;
-    is_night: boolean;
+    is_night: boolean; // sun below civil twilight at the cell centre
+    sun: SunPosition;
     conditions: {
       rain_intensity: RainIntensity;
       road_condition: RoadCondition;
@@ -46,8 +58,9 @@ export type RiskHotspot = {
     std_dev: number;
   };
   metadata: {
+    id: string; // UUID, stable for a seed
     risk: {
-      type: string;
+      type: RiskTypeCode;
       importance: number;
       confidence: number;
       residual_confidence: number;
@@ -71,9 +84,15 @@ export type RiskHotspot = {
       avg: number;
       std_dev: number;
     };
+    // sun elevation in degrees at the hotspot's incidents, and the circular
+    // mean and spread of the sun azimuth there (low sun ahead means glare)
     sun_position: {
       avg: number;
       std_dev: number;
+      azimuth: {
+        avg: number;
+        std_dev: number;
+      };
     };
     conditions: {
       dry_road: {
@@ -111,10 +130,116 @@ export type RiskHotspot = {
   };
 };
 
+export type HotspotCondition = keyof RiskHotspot["environment"]["conditions"];
+
+// current weather of the cell a hotspot lies in
+export type HotspotWeather = {
+  h3_index: H3Index;
+  temperature: number;
+  is_night: boolean;
+  sun: SunPosition; // at the hotspot itself, for judging glare along its heading
+  conditions: Cell["environment"]["conditions"];
+  // hotspot conditions the current weather brings about, among those common in its incidents
+  elevated_by: Array<HotspotCondition>;
+};
+
+/**
+ * Read-only, point-in-time view of a keyed collection for paging and streaming.
+ * `scope` names the collection (and resolution) so a cursor can't be reused on
+ * another; `generation` changes whenever the key set is replaced. Items are
+ * shared with the simulation and must only be serialised, never mutated.
+ */
+export type ExportView<T> = {
+  scope: string;
+  generation: number;
+  keys: ReadonlyArray<string>;
+  get(key: string): T | undefined;
+};
+
+/**
+ * What the snapshot swap to `version` changed. Cells count as changed when
+ * any field of them differs, so applying the changes gives the snapshot itself;
+ * removed entries carry their last state. Items are shared with the simulation
+ * like those of an ExportView.
+ */
+export type SnapshotChanges = {
+  version: string;
+  published_at: string;
+  cells: {
+    added: Map<H3Index, Cell>;
+    changed: Map<H3Index, Cell>;
+    removed: Map<H3Index, Cell>;
+  };
+  hotspots: {
+    changed: Map<string, RiskHotspot>;
+    removed: Map<string, RiskHotspot>;
+  };
+};
+
+// cells that differ between an earlier snapshot version and the current one
+export type SnapshotDelta = {
+  version: string;
+  added: Record<H3Index, Cell>;
+  changed: Record<H3Index, Cell>;
+  removed: Array<H3Index>;
+};
+
 export type SimulationOptions = {
   targetCellCount?: number;
   targetHotspotCount?: number; // New option for hotspots
   snapshotIntervalMs?: number;
   seed?: number;
   resolution?: number;
+  hotspotHistoryDays?: number; // days of archived hotspot states to retain
+  weatherHistoryDays?: number; // days of archived weather snapshots to retain
+  clock?: SimulationClock; // time source, defaults to real time
+  eventBatchSize?: number; // random raw events per tick
+  // cumulative chances of placing a cell near a city, in a city's outskirts,
+  // along a highway or along another road; the rest is background noise
+  sampling?: {
+    city: number;
+    outskirts: number;
+    highway: number;
+    roads: number;
+  };
+  bounds?: BoundingBox; // simulated area
+};
+
+// running totals of the raw events a cell received in the current interval
+export type RawAggregate = {
+  sumTemp: number;
+  count: number;
+  lastTs: number;
+  sumConfidence: number;
+  sumCounts: number;
+  fogVotes: number;
+  crossWindVotes: number;
+  rainScore: number;
+  roadScore: number;
+  sumTempOffset: number; // scenario share of sumTemp
+};
+
+type Entries<V> = Array<[string, V]>;
+
+// JSON-serialisable copy of everything a Simulation generated or accumulated;
+// maps are stored as entry arrays
+export type SimulationState = {
+  version: 1;
+  saved_at: number; // simulated time of the save, epoch ms
+  seed: number;
+  rng_state: number;
+  resolution: number;
+  cell_locations: Array<{ lat: number; lng: number; h3: H3Index }>;
+  snapshot: Entries<Cell>;
+  snapshot_temp_offsets: Entries<number>;
+  raw_agg: Entries<RawAggregate>;
+  hotspots: Entries<RiskHotspot>;
+  stats: Entries<CellStatistics>;
+  stats_since?: number; // simulated time `stats` started being gathered
+  // condition tallies (see Simulation#tallyConditions) of each cell on the
+  // day of the last swap, counted once that day is over
+  stats_today?: { day: string; tallies: Entries<Array<number>> };
+  snapshot_history: Entries<Entries<Cell>>;
+  hotspot_history: Entries<Entries<RiskHotspot>>;
+  scenario?: { scenario: Scenario; started_at: number };
 };
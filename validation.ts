@@ -1,5 +1,8 @@
 import * as v from "@valibot/valibot";
-import { BoundingBox } from "./types.ts";
+import * as h3 from "h3-js";
+import { RISK_TYPE_CODES } from "./risks.ts";
+import { routeLengthKm } from "./spatial.ts";
+import type { Polygons, RainIntensity, RoadCondition } from "./types.ts";
 
 // Helper: comma- (or custom-) separated string → array
 const stringListSchema = (delimiter = ",") =>
@@ -27,15 +30,136 @@ const bboxSchema = v.pipe(
   ),
 );
 
+// comma-separated list of valid H3 cell indexes
+const h3IndexListSchema = v.pipe(
+  stringListSchema(","),
+  v.everyItem(
+    (h3Index) => h3.isValidCell(h3Index),
+    "h3_indexes must contain only valid H3 cell indexes",
+  ),
+  v.maxLength(100, "h3_indexes may list at most 100 cells"),
+);
+
+// "true" / "false" query flag
+const booleanFlagSchema = v.pipe(
+  v.picklist(["true", "false"], "must be either true or false"),
+  v.transform((val) => val === "true"),
+);
+
+// response format of routes that can also answer with GeoJSON
+const geoJsonFormatSchema = v.picklist(["json", "geojson"]);
+
+// calendar date in ISO 8601 format (YYYY-MM-DD)
+const isoDateSchema = v.pipe(
+  v.string(),
+  v.isoDate("date must be a valid date in YYYY-MM-DD format"),
+);
+
+// comma-separated list of risk type codes from the catalogue
+const riskTypeListSchema = v.pipe(
+  stringListSchema(","),
+  v.array(
+    v.picklist(
+      RISK_TYPE_CODES,
+      (issue) =>
+        `unknown risk type ${issue.received}, expected one of ${
+          RISK_TYPE_CODES.join(", ")
+        } (see /road-safety/risk-types)`,
+    ),
+  ),
+);
+
+// numeric query parameter; Number() would read a blank value as 0
+const numberParamSchema = v.pipe(
+  v.string(),
+  v.check((value) => value.trim() !== "", "must not be empty"),
+  v.transform(Number),
+  v.number("must be a number"),
+);
+
+// H3 resolution to roll cells up to
+const resolutionParamSchema = v.pipe(
+  numberParamSchema,
+  v.integer("resolution must be an integer"),
+  v.minValue(0, "resolution must be between 0 and 15"),
+  v.maxValue(15, "resolution must be between 0 and 15"),
+);
+
+// snapshot version a client already has; only changes since are returned
+// as sent in X-Snapshot-Version: `<epoch>.<generation>`; a bare generation
+// comes from before versions named their run, so from no run that is current
+const sinceVersionParamSchema = v.pipe(
+  v.string(),
+  v.regex(
+    /^([0-9a-f]+\.)?\d+$/,
+    "since_version must be a snapshot version as sent in X-Snapshot-Version",
+  ),
+  v.transform((value) => {
+    const [epoch, generation] = value.includes(".")
+      ? value.split(".")
+      : ["", value];
+    return { epoch, generation: Number(generation) };
+  }),
+);
+
+// lat/lng/radius_m: everything within radius_m metres of a point
+const radiusEntries = {
+  lat: v.optional(v.pipe(numberParamSchema, v.minValue(-90), v.maxValue(90))),
+  lng: v.optional(
+    v.pipe(numberParamSchema, v.minValue(-180), v.maxValue(180)),
+  ),
+  radius_m: v.optional(
+    v.pipe(numberParamSchema, v.gtValue(0), v.maxValue(500_000)),
+  ),
+};
+
+// the query area is exactly one of a bbox, a complete lat/lng/radius_m circle
+// or (where accepted) a list of h3_indexes
+const hasOneArea = (
+  params: {
+    bbox?: unknown;
+    lat?: number;
+    lng?: number;
+    radius_m?: number;
+    h3_indexes?: unknown;
+  },
+) => {
+  const radiusParts = [params.lat, params.lng, params.radius_m]
+    .filter((value) => value !== undefined).length;
+  if (radiusParts !== 0 && radiusParts !== 3) return false;
+  const areas = [params.bbox, params.h3_indexes]
+    .filter((value) => value !== undefined).length + (radiusParts && 1);
+  return areas === 1;
+};
+
+// a delta is JSON of simulation-resolution cells
+const isPlainDelta = (params: { resolution?: number; format?: string }) =>
+  params.resolution === undefined &&
+  (params.format === undefined || params.format === "json");
+
+// epoch milliseconds or an ISO 8601 timestamp, within four-digit years so
+// that dates derived from it stay valid
+const MAX_TIMESTAMP = Date.UTC(9999, 11, 31);
+const timestampSchema = v.pipe(
+  v.union([
+    v.number(),
+    v.pipe(
+      v.string(),
+      v.isoTimestamp(),
+      v.transform<string, number>((value) => Date.parse(value)),
+    ),
+  ], "timestamp must be epoch milliseconds or an ISO 8601 timestamp"),
+  v.minValue(0, "timestamp must not be before 1970-01-01"),
+  v.maxValue(MAX_TIMESTAMP, "timestamp must not be after 9999-12-31"),
+);
+
 // ---------------------------------------------
 // GET /api/v1/road-safety/hotspots
 // ---------------------------------------------
-export const roadSafetyHotspotsSearchParams = v.object({
-  bbox: bboxSchema, // required
+const roadSafetyHotspotsFilters = v.object({
   min_confidence: v.optional(
     v.pipe(
-      v.string(),
-      v.transform<string, number>((val) => Number(val)),
+      numberParamSchema,
       v.check<number, string>(
         (n) => Number.isInteger(n) && n >= 0 && n <= 100,
         "min_confidence must be an integer between 0 and 100",
@@ -43,9 +167,32 @@ export const roadSafetyHotspotsSearchParams = v.object({
     ),
     "0", // <--- Change the default value to the string '0'
   ),
-  type: v.optional(stringListSchema(",")), // e.g. "VA,EB"
+  type: v.optional(riskTypeListSchema), // e.g. "VA,EB"
+  format: v.optional(geoJsonFormatSchema),
+  with_heading: v.optional(booleanFlagSchema, "false"), // GeoJSON heading lines
+  // only hotspots the current weather in their cell makes riskier, with that weather
+  weather_elevated: v.optional(booleanFlagSchema, "false"),
 });
 
+export const roadSafetyHotspotsSearchParams = v.pipe(
+  v.object({
+    ...roadSafetyHotspotsFilters.entries,
+    bbox: v.optional(bboxSchema),
+    ...radiusEntries,
+  }),
+  v.check(
+    (obj) => hasOneArea(obj),
+    "You must provide either bbox or lat, lng and radius_m.",
+  ),
+);
+
+// POST /api/v1/road-safety/hotspots: the area is a polygon in the body
+export const roadSafetyHotspotsPolygonSearchParams = roadSafetyHotspotsFilters;
+
+export type RoadSafetyHotspotsFilters = v.InferOutput<
+  typeof roadSafetyHotspotsFilters
+>;
+
 export type RoadSafetyHotspotsSearchParams = v.InferOutput<
   typeof roadSafetyHotspotsSearchParams
 >;
@@ -56,13 +203,596 @@ export type RoadSafetyHotspotsSearchParams = v.InferOutput<
 export const weatherCellsSearchParams = v.pipe(
   v.object({
     bbox: v.optional(bboxSchema),
-    h3_indexes: v.optional(stringListSchema(",")),
+    h3_indexes: v.optional(h3IndexListSchema),
+    ...radiusEntries,
+    resolution: v.optional(resolutionParamSchema),
+    since_version: v.optional(sinceVersionParamSchema),
+    format: v.optional(geoJsonFormatSchema),
   }),
-  v.check<{ bbox?: BoundingBox; h3_indexes?: Array<string> }, string>(
-    (obj) => obj.bbox !== undefined || obj.h3_indexes !== undefined,
-    "You must provide either bbox or h3_indexes.",
+  v.check(
+    (obj) => hasOneArea(obj),
+    "You must provide exactly one of bbox, lat, lng and radius_m, or h3_indexes.",
+  ),
+  v.check(
+    (obj) => obj.since_version === undefined || isPlainDelta(obj),
+    "since_version returns JSON at the simulation resolution, without resolution or format=geojson.",
+  ),
+);
+
+// POST /api/v1/weather/cells: the area is a polygon in the body
+export const weatherCellsPolygonSearchParams = v.pipe(
+  v.object({
+    resolution: v.optional(resolutionParamSchema),
+    since_version: v.optional(sinceVersionParamSchema),
+    format: v.optional(geoJsonFormatSchema),
+  }),
+  v.check(
+    (obj) => obj.since_version === undefined || isPlainDelta(obj),
+    "since_version returns JSON at the simulation resolution, without resolution or format=geojson.",
   ),
 );
 export type WeatherCellsSearchParams = v.InferOutput<
   typeof weatherCellsSearchParams
 >;
+
+// ---------------------------------------------
+// POST /api/v1/road-safety/hotspots, POST /api/v1/weather/cells (body)
+// ---------------------------------------------
+const positionSchema = v.tuple([
+  v.pipe(v.number(), v.minValue(-180), v.maxValue(180)),
+  v.pipe(v.number(), v.minValue(-90), v.maxValue(90)),
+]);
+const ringSchema = v.pipe(
+  v.array(positionSchema),
+  v.minLength(4, "a polygon ring needs at least 4 positions"),
+);
+const polygonCoordinatesSchema = v.pipe(
+  v.array(ringSchema),
+  v.minLength(1, "a polygon needs an outer ring"),
+);
+const polygonalGeometrySchema = v.variant("type", [
+  v.object({
+    type: v.literal("Polygon"),
+    coordinates: polygonCoordinatesSchema,
+  }),
+  v.object({
+    type: v.literal("MultiPolygon"),
+    coordinates: v.pipe(
+      v.array(polygonCoordinatesSchema),
+      v.minLength(1, "a multipolygon needs at least one polygon"),
+    ),
+  }),
+]);
+
+// GeoJSON Polygon or MultiPolygon geometry, bare or as a Feature
+export const polygonQuerySchema = v.pipe(
+  v.variant("type", [
+    ...polygonalGeometrySchema.options,
+    v.object({ type: v.literal("Feature"), geometry: polygonalGeometrySchema }),
+  ], "body must be a GeoJSON Polygon, MultiPolygon or a Feature with one"),
+  v.transform((body): Polygons => {
+    const geometry = body.type === "Feature" ? body.geometry : body;
+    return geometry.type === "Polygon"
+      ? [geometry.coordinates]
+      : geometry.coordinates;
+  }),
+);
+
+// ---------------------------------------------
+// POST /api/v1/road-safety/route
+// ---------------------------------------------
+export const roadSafetyRouteSearchParams = v.object({
+  corridor_m: v.optional(
+    v.pipe(numberParamSchema, v.gtValue(0), v.maxValue(5_000)),
+    "100",
+  ),
+  min_confidence: roadSafetyHotspotsFilters.entries.min_confidence,
+  type: roadSafetyHotspotsFilters.entries.type,
+});
+
+const lineCoordinatesSchema = v.pipe(
+  v.array(positionSchema),
+  v.minLength(2, "a route needs at least 2 positions"),
+  v.maxLength(10_000, "a route may have at most 10000 positions"),
+);
+const lineStringSchema = v.object({
+  type: v.literal("LineString"),
+  coordinates: lineCoordinatesSchema,
+});
+
+const MAX_ROUTE_KM = 2000;
+
+// a GeoJSON LineString, bare or as a Feature, or a polyline of [lat, lng]
+// points like the highways in data.ts; either way in driving order
+export const routeQuerySchema = v.pipe(
+  v.union(
+    [
+      v.variant("type", [
+        lineStringSchema,
+        v.object({ type: v.literal("Feature"), geometry: lineStringSchema }),
+      ]),
+      v.pipe(
+        v.array(v.tuple([
+          v.pipe(v.number(), v.minValue(-90), v.maxValue(90)),
+          v.pipe(v.number(), v.minValue(-180), v.maxValue(180)),
+        ])),
+        v.minLength(2, "a route needs at least 2 positions"),
+        v.maxLength(10_000, "a route may have at most 10000 positions"),
+      ),
+    ],
+    "body must be a GeoJSON LineString, a Feature with one or an array of [lat, lng] points",
+  ),
+  v.transform((body): Array<[number, number]> => {
+    if (Array.isArray(body)) return body;
+    const geometry = body.type === "Feature" ? body.geometry : body;
+    return geometry.coordinates.map(([lng, lat]) => [lat, lng]);
+  }),
+  v.check(
+    (route) => routeLengthKm(route) <= MAX_ROUTE_KM,
+    `a route may be at most ${MAX_ROUTE_KM} km long`,
+  ),
+);
+
+// ---------------------------------------------
+// GET /api/v1/road-safety/hotspots/{id}
+// ---------------------------------------------
+// any id, UUID or not, that no hotspot has is simply not found
+export const roadSafetyHotspotParams = v.object({
+  id: v.string(),
+});
+
+// ---------------------------------------------
+// GET /api/v1/road-safety/history/{YYYY-MM-DD}
+// ---------------------------------------------
+export const roadSafetyHistoryParams = v.object({
+  date: isoDateSchema,
+});
+export type RoadSafetyHistoryParams = v.InferOutput<
+  typeof roadSafetyHistoryParams
+>;
+
+// ---------------------------------------------
+// GET /api/v1/weather/history/{YYYY-MM-DD}
+// ---------------------------------------------
+export const weatherHistoryParams = v.object({
+  date: isoDateSchema,
+});
+export type WeatherHistoryParams = v.InferOutput<typeof weatherHistoryParams>;
+
+export const weatherHistorySearchParams = v.object({
+  bbox: v.optional(bboxSchema),
+  h3_indexes: v.optional(h3IndexListSchema),
+});
+export type WeatherHistorySearchParams = v.InferOutput<
+  typeof weatherHistorySearchParams
+>;
+
+// ---------------------------------------------
+// POST /mock/v1/weather/events
+// ---------------------------------------------
+const rainIntensitySchema = v.picklist(
+  ["NONE", "LOW", "MEDIUM", "HIGH", "UNRECOGNIZED"] satisfies Array<
+    RainIntensity
+  >,
+);
+const roadConditionSchema = v.picklist(
+  [
+    "DRY",
+    "WET",
+    "SLIPPERY",
+    "SLIPPERY_ICE",
+    "SLIPPERY_WET",
+    "UNRECOGNIZED",
+  ] satisfies Array<RoadCondition>,
+);
+
+// one observation, located either by h3_index or by lat/lng
+export const rawWeatherEventSchema = v.pipe(
+  v.object({
+    h3_index: v.optional(
+      v.pipe(
+        v.string(),
+        v.check((h3Index) => h3.isValidCell(h3Index), "invalid H3 cell index"),
+      ),
+    ),
+    lat: v.optional(v.pipe(v.number(), v.minValue(-90), v.maxValue(90))),
+    lng: v.optional(v.pipe(v.number(), v.minValue(-180), v.maxValue(180))),
+    // air temperatures a vehicle can plausibly report, in °C; anything
+    // outside would skew the cell average and its statistics for good
+    temperature: v.pipe(
+      v.number(),
+      v.minValue(-80, "temperature must be at least -80 °C"),
+      v.maxValue(70, "temperature must be at most 70 °C"),
+    ),
+    confidence: v.optional(
+      v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(100)),
+    ),
+    count: v.optional(
+      v.pipe(
+        v.number(),
+        v.integer(),
+        v.minValue(1),
+        v.maxValue(10_000, "count must be at most 10000"),
+      ),
+    ),
+    fog: v.optional(v.boolean()),
+    cross_wind: v.optional(v.boolean()),
+    rain_intensity: v.optional(rainIntensitySchema),
+    road_condition: v.optional(roadConditionSchema),
+    timestamp: v.optional(timestampSchema),
+  }),
+  v.check(
+    (event) =>
+      event.h3_index !== undefined ||
+      (event.lat !== undefined && event.lng !== undefined),
+    "event must include either h3_index or both lat and lng",
+  ),
+);
+export type RawWeatherEvent = v.InferOutput<typeof rawWeatherEventSchema>;
+
+// ---------------------------------------------
+// GET /mock/v1/weather/snapshot, /mock/v1/road-safety/snapshot
+// ---------------------------------------------
+export const snapshotSearchParams = v.object({
+  limit: v.optional(
+    v.pipe(
+      v.string(),
+      v.transform<string, number>((val) => Number(val)),
+      v.check<number, string>(
+        (n) => Number.isInteger(n) && n >= 1 && n <= 10_000,
+        "limit must be an integer between 1 and 10000",
+      ),
+    ),
+  ),
+  cursor: v.optional(
+    v.pipe(v.string(), v.nonEmpty("cursor must not be empty")),
+  ),
+  format: v.optional(v.picklist(["json", "ndjson", "geojson"])),
+});
+export type SnapshotSearchParams = v.InferOutput<typeof snapshotSearchParams>;
+
+export const weatherSnapshotSearchParams = v.pipe(
+  v.object({
+    ...snapshotSearchParams.entries,
+    resolution: v.optional(resolutionParamSchema),
+    since_version: v.optional(sinceVersionParamSchema),
+  }),
+  v.check(
+    (obj) =>
+      obj.since_version === undefined ||
+      (isPlainDelta(obj) && obj.limit === undefined &&
+        obj.cursor === undefined),
+    "since_version returns all changes as JSON at the simulation resolution, without resolution, limit, cursor or another format.",
+  ),
+);
+
+export const roadSafetySnapshotSearchParams = v.object({
+  ...snapshotSearchParams.entries,
+  with_heading: v.optional(booleanFlagSchema, "false"),
+});
+export type RoadSafetySnapshotSearchParams = v.InferOutput<
+  typeof roadSafetySnapshotSearchParams
+>;
+
+// ---------------------------------------------
+// GET /mock/v1/updates (Server-Sent Events or WebSocket)
+// ---------------------------------------------
+export const updatesSearchParams = v.pipe(
+  v.object({
+    bbox: v.optional(bboxSchema),
+    h3_indexes: v.optional(h3IndexListSchema),
+  }),
+  v.check(
+    (obj) => (obj.bbox === undefined) !== (obj.h3_indexes === undefined),
+    "You must provide either bbox or h3_indexes.",
+  ),
+);
+export type UpdatesSearchParams = v.InferOutput<typeof updatesSearchParams>;
+
+// ---------------------------------------------
+// Scenario files (scenarios/*.json, POST /mock/v1/scenario)
+// ---------------------------------------------
+const latSchema = v.pipe(v.number(), v.minValue(-90), v.maxValue(90));
+const lngSchema = v.pipe(v.number(), v.minValue(-180), v.maxValue(180));
+const positiveSchema = v.pipe(v.number(), v.gtValue(0));
+const minutesSchema = v.pipe(v.number(), v.minValue(0));
+
+const weatherSystemSchema = v.object({
+  name: v.string(),
+  kind: v.picklist(["rain", "ice_storm", "fog"]),
+  shape: v.variant("type", [
+    v.object({ type: v.literal("circle"), radius_km: positiveSchema }),
+    // major axis runs across the direction of travel unless orientation_deg is given
+    v.object({
+      type: v.literal("ellipse"),
+      major_km: positiveSchema,
+      minor_km: positiveSchema,
+      orientation_deg: v.optional(v.number()),
+    }),
+  ]),
+  path: v.pipe(
+    v.array(v.tuple([latSchema, lngSchema])), // [lat, lng] points
+    v.minLength(1, "path must contain at least one point"),
+  ),
+  speed_kmh: v.optional(v.pipe(v.number(), v.minValue(0)), 0),
+  start_min: v.optional(minutesSchema, 0), // relative to scenario start
+  // without a duration the system lives until it reaches the end of its path
+  // (a stationary system lives until the scenario is stopped)
+  duration_min: v.optional(minutesSchema),
+  // keyframes relative to the system start, linearly interpolated
+  intensity: v.optional(
+    v.pipe(
+      v.array(v.object({
+        at_min: minutesSchema,
+        value: v.pipe(v.number(), v.minValue(0), v.maxValue(1)),
+      })),
+      v.minLength(1, "intensity must contain at least one keyframe"),
+      v.check(
+        (keys) =>
+          keys.every((key, i) => i === 0 || key.at_min >= keys[i - 1].at_min),
+        "intensity keyframes must be sorted by at_min",
+      ),
+    ),
+    [{ at_min: 0, value: 1 }],
+  ),
+  // °C added to observations at full intensity in the centre of the system
+  temperature_offset: v.optional(v.number(), 0),
+});
+export type WeatherSystem = v.InferOutput<typeof weatherSystemSchema>;
+
+export const scenarioSchema = v.object({
+  name: v.pipe(v.string(), v.nonEmpty("name must not be empty")),
+  description: v.optional(v.string()),
+  systems: v.pipe(
+    v.array(weatherSystemSchema),
+    v.minLength(1, "scenario must contain at least one weather system"),
+  ),
+});
+export type Scenario = v.InferOutput<typeof scenarioSchema>;
+
+export const scenarioNameParams = v.object({
+  name: v.pipe(
+    v.string(),
+    v.regex(/^[a-z0-9][a-z0-9_-]*$/, "invalid scenario name"),
+  ),
+});
+
+// ---------------------------------------------
+// /mock/v1/admin/checkpoints/{name}
+// ---------------------------------------------
+export const checkpointNameParams = v.object({
+  name: v.pipe(
+    v.string(),
+    v.regex(/^[a-z0-9][a-z0-9_-]*$/, "invalid checkpoint name"),
+  ),
+});
+
+// map entries as stored in a checkpoint
+const entriesSchema = <
+  const TSchema extends v.GenericSchema,
+>(value: TSchema) => v.array(v.tuple([v.string(), value]));
+const finiteSchema = v.pipe(v.number(), v.finite());
+const avgStdDevSchema = v.object({ avg: finiteSchema, std_dev: finiteSchema });
+const conditionCountSchema = v.object({
+  is_present: v.boolean(),
+  count: finiteSchema,
+});
+const extremeSchema = v.nullable(
+  v.object({ value: finiteSchema, timestamp: v.string() }),
+);
+
+// (checkpoints saved before cells carried the sun lack it)
+const checkpointCellSchema = v.object({
+  location: v.object({ h3_index: v.string() }),
+  timeframe: v.object({ last: v.string() }),
+  metadata: v.object({ confidence: finiteSchema, total_count: finiteSchema }),
+  environment: v.object({
+    temperature: finiteSchema,
+    is_night: v.boolean(),
+    sun: v.optional(
+      v.object({ elevation: finiteSchema, azimuth: finiteSchema }),
+    ),
+    conditions: v.object({
+      rain_intensity: rainIntensitySchema,
+      road_condition: roadConditionSchema,
+      fog: v.boolean(),
+      cross_wind: v.boolean(),
+    }),
+  }),
+});
+
+const cellStatisticsSchema = v.object({
+  temperature: v.object({ lowest: extremeSchema, highest: extremeSchema }),
+  day_counts: v.object({
+    rain: v.object({
+      low: finiteSchema,
+      medium: finiteSchema,
+      high: finiteSchema,
+    }),
+    slippery_road: finiteSchema,
+    fog: finiteSchema,
+    cross_wind: finiteSchema,
+  }),
+});
+
+// (checkpoints saved before hotspots carried the sun azimuth lack it)
+const checkpointHotspotSchema = v.object({
+  location: v.object({
+    latitude: finiteSchema,
+    longitude: finiteSchema,
+    std_dev: finiteSchema,
+  }),
+  metadata: v.object({
+    id: v.string(),
+    risk: v.object({
+      type: v.picklist(RISK_TYPE_CODES),
+      importance: finiteSchema,
+      confidence: finiteSchema,
+      residual_confidence: finiteSchema,
+    }),
+    total_count: finiteSchema,
+    weather_impact: finiteSchema,
+    time_of_day_impact: finiteSchema,
+  }),
+  timeframe: v.object({ first: v.string(), last: v.string() }),
+  vehicle: v.object({ heading: avgStdDevSchema }),
+  environment: v.object({
+    air_temperature: avgStdDevSchema,
+    sun_position: v.object({
+      avg: finiteSchema,
+      std_dev: finiteSchema,
+      azimuth: v.optional(avgStdDevSchema),
+    }),
+    conditions: v.object({
+      dry_road: conditionCountSchema,
+      wet_road: conditionCountSchema,
+      rain: conditionCountSchema,
+      slippery_road: conditionCountSchema,
+      fog: conditionCountSchema,
+      crosswind: conditionCountSchema,
+    }),
+  }),
+  statistics: v.object({
+    distribution: v.object({
+      by_week: v.record(v.string(), finiteSchema),
+      by_day: v.record(v.string(), finiteSchema),
+      by_time: v.record(v.string(), finiteSchema),
+    }),
+  }),
+});
+
+/**
+ * A saved SimulationState. Fields that older checkpoints lack are optional
+ * here; Simulation#restoreState fills them in.
+ */
+export const simulationStateSchema = v.object({
+  version: v.literal(1, "unsupported checkpoint version"),
+  saved_at: finiteSchema,
+  seed: finiteSchema,
+  rng_state: finiteSchema,
+  resolution: v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(15)),
+  cell_locations: v.array(
+    v.object({ lat: finiteSchema, lng: finiteSchema, h3: v.string() }),
+  ),
+  snapshot: entriesSchema(checkpointCellSchema),
+  snapshot_temp_offsets: entriesSchema(finiteSchema),
+  raw_agg: entriesSchema(v.object({
+    sumTemp: finiteSchema,
+    count: finiteSchema,
+    lastTs: finiteSchema,
+    sumConfidence: finiteSchema,
+    sumCounts: finiteSchema,
+    fogVotes: finiteSchema,
+    crossWindVotes: finiteSchema,
+    rainScore: finiteSchema,
+    roadScore: finiteSchema,
+    sumTempOffset: finiteSchema,
+  })),
+  hotspots: entriesSchema(checkpointHotspotSchema),
+  stats: entriesSchema(cellStatisticsSchema),
+  stats_since: v.optional(finiteSchema),
+  stats_today: v.optional(v.object({
+    day: v.string(),
+    tallies: entriesSchema(v.array(finiteSchema)),
+  })),
+  snapshot_history: entriesSchema(entriesSchema(checkpointCellSchema)),
+  hotspot_history: entriesSchema(entriesSchema(checkpointHotspotSchema)),
+  scenario: v.optional(v.object({
+    scenario: scenarioSchema,
+    started_at: finiteSchema,
+  })),
+});
+
+// ---------------------------------------------
+// PUT /mock/v1/admin/clock/speed, POST /mock/v1/admin/clock/jump
+// ---------------------------------------------
+export const clockSpeedSchema = v.object({
+  // simulated milliseconds per real millisecond
+  speed: v.pipe(v.number(), v.gtValue(0), v.maxValue(1000)),
+});
+
+export const clockJumpSchema = v.object({
+  to: timestampSchema,
+});
+
+// ---------------------------------------------
+// Configuration (config file, environment variables, CLI flags)
+// ---------------------------------------------
+// file values are typed JSON, env and CLI values arrive as strings
+const configNumberSchema = v.union([
+  v.number(),
+  v.pipe(
+    v.string(),
+    v.trim(),
+    v.nonEmpty(),
+    v.transform(Number),
+    v.number(),
+  ),
+], "must be a number");
+const configIntegerSchema = (min: number, max = Number.MAX_SAFE_INTEGER) =>
+  v.pipe(
+    configNumberSchema,
+    v.integer("must be an integer"),
+    v.minValue(min),
+    v.maxValue(max),
+  );
+const probabilitySchema = v.pipe(
+  configNumberSchema,
+  v.minValue(0),
+  v.maxValue(1),
+);
+
+export const configObjectSchema = v.strictObject({
+  port: v.optional(configIntegerSchema(0, 65535), 3000),
+  target_cell_count: v.optional(configIntegerSchema(1), 50_000),
+  target_hotspot_count: v.optional(configIntegerSchema(0), 50),
+  resolution: v.optional(configIntegerSchema(0, 15), 7),
+  snapshot_interval_ms: v.optional(configIntegerSchema(1), 900_000),
+  // raw events per 200 ms tick, defaults to sqrt(target_cell_count) / 50
+  event_batch_size: v.optional(configIntegerSchema(1)),
+  seed: v.optional(configIntegerSchema(0), () => Date.now()),
+  start_time: v.optional(timestampSchema), // defaults to now
+  // the same seed and start_time with a deterministic clock replay identical data and events
+  deterministic: v.optional(
+    v.union(
+      [v.boolean(), booleanFlagSchema],
+      "must be either true or false",
+    ),
+    false,
+  ),
+  // cumulative chances of placing a cell near a city, in a city's outskirts,
+  // along a highway or along another road; the rest is background noise
+  p_city: v.optional(probabilitySchema, 0.50),
+  p_outskirts: v.optional(probabilitySchema, 0.75),
+  p_highway: v.optional(probabilitySchema, 0.80),
+  p_roads: v.optional(probabilitySchema, 0.92),
+  // [minLng, minLat, maxLng, maxLat] of the simulated area
+  bounds: v.optional(
+    v.union([
+      v.tuple([v.number(), v.number(), v.number(), v.number()]),
+      bboxSchema,
+    ], "bounds must contain exactly 4 coordinates"),
+    [12.09, 48.55, 18.87, 51.06],
+  ),
+  hotspot_history_days: v.optional(configIntegerSchema(1), 30),
+  weather_history_days: v.optional(configIntegerSchema(1), 7),
+  scenario: v.optional(v.string()), // scenario name or file path started at boot
+  checkpoint: v.optional(v.string()), // checkpoint name or file path to boot from
+});
+
+export const configSchema = v.pipe(
+  configObjectSchema,
+  v.check(
+    (config) =>
+      config.p_city <= config.p_outskirts &&
+      config.p_outskirts <= config.p_highway &&
+      config.p_highway <= config.p_roads,
+    "p_city, p_outskirts, p_highway and p_roads must not decrease",
+  ),
+  v.check(
+    ({ bounds: [minLng, minLat, maxLng, maxLat] }) =>
+      minLng < maxLng && minLat < maxLat,
+    "bounds must be [minLng, minLat, maxLng, maxLat]",
+  ),
+);
+export type Config = v.InferOutput<typeof configSchema>;